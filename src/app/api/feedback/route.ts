@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChatApiError, toChatApiError } from '@/lib/api-errors';
+import { getClientIdentity } from '@/lib/client-identity';
+import { isFeedbackExportAuthorized, listFeedback, parseFeedbackRequest, saveFeedback } from '@/lib/feedback';
+import { checkActionRateLimit } from '@/lib/rate-limit';
+import { buildRateLimitHeaders } from '@/lib/rate-limit-headers';
+
+/**
+ * Answer Feedback Route
+ *
+ * Collects thumbs up/down ratings on answers, with the question, answer, model
+ * and prompt version they were given for, in the shared store (`src/lib/feedback.ts`).
+ * The log can be exported for prompt tuning by whoever holds `FEEDBACK_EXPORT_KEY`.
+ */
+
+const errorResponse = (error: unknown, headers: Record<string, string> = {}) => {
+  const apiError = toChatApiError(error);
+  if (apiError.status >= 500) {
+    console.error('Error in feedback API route:', error);
+  }
+  return NextResponse.json({ error: apiError.toJSON() }, { status: apiError.status, headers });
+};
+
+/**
+ * Records a rating. Rating the same answer again adds a newer entry that
+ * replaces the earlier one in the export. Each client has its own feedback
+ * quota (`ACTION_RATE_LIMITS`), separate from the chat quota.
+ *
+ * @param request - JSON `FeedbackRequestBody`
+ * @returns `{ id }` of the stored entry, or an `ApiErrorResponse`
+ */
+export async function POST(request: NextRequest) {
+  let headers: Record<string, string> = {};
+
+  try {
+    const client = getClientIdentity(request.headers);
+    const rateLimit = await checkActionRateLimit('feedback', client.identifier, client.tier);
+    headers = buildRateLimitHeaders(rateLimit);
+    if (!rateLimit.success) {
+      throw new ChatApiError('RATE_LIMITED', 'Too many ratings. Please try again later.', {
+        retryAfterSeconds: Math.ceil(rateLimit.retryAfter / 1000),
+      });
+    }
+
+    const feedback = parseFeedbackRequest(await request.json().catch(() => null));
+    if (!feedback) {
+      throw new ChatApiError('INVALID_INPUT', 'Invalid feedback. Please provide a rating and the answer it is for.');
+    }
+
+    const { id } = await saveFeedback(feedback);
+    return NextResponse.json({ id }, { status: 201, headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
+
+/**
+ * Exports the feedback log, newest first, as a JSON array or as JSON Lines
+ * with `?format=jsonl`. Requires `Authorization: Bearer <FEEDBACK_EXPORT_KEY>`;
+ * the export is disabled while the variable is unset.
+ *
+ * @param request - The incoming Next.js request object
+ * @returns The feedback records, or an `ApiErrorResponse`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isFeedbackExportAuthorized(request.headers.get('authorization'))) {
+      throw new ChatApiError('UNAUTHORIZED', 'A valid feedback export key is required.');
+    }
+
+    const records = await listFeedback();
+    if (request.nextUrl.searchParams.get('format') === 'jsonl') {
+      return new Response(records.map((record) => JSON.stringify(record)).join('\n'), {
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="stardew-sage-feedback.jsonl"',
+        },
+      });
+    }
+    return NextResponse.json(records);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
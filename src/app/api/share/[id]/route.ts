@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChatApiError, toChatApiError } from '@/lib/api-errors';
+import { revokeShare } from '@/lib/share';
+
+/**
+ * Revokes a share link so `/share/[id]` stops showing it. Requires
+ * `Authorization: Bearer <revokeToken>` from the response that created the link.
+ *
+ * @param request - The incoming Next.js request object
+ * @returns 204 once the snapshot is deleted, or an `ApiErrorResponse`
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const revokeToken = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+    if (!revokeToken) {
+      throw new ChatApiError('UNAUTHORIZED', 'A revoke token is required to remove this link.');
+    }
+
+    await revokeShare(id, revokeToken);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    const apiError = toChatApiError(error);
+    if (apiError.status >= 500) {
+      console.error('Error in share revoke API route:', error);
+    }
+    return NextResponse.json({ error: apiError.toJSON() }, { status: apiError.status });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChatApiError, toChatApiError } from '@/lib/api-errors';
+import { getClientIdentity } from '@/lib/client-identity';
+import { checkActionRateLimit } from '@/lib/rate-limit';
+import { buildRateLimitHeaders } from '@/lib/rate-limit-headers';
+import { createShare, parseShareRequest } from '@/lib/share';
+import type { ShareResponseBody } from '@/types/share';
+
+/**
+ * Share Route
+ *
+ * Stores a read-only snapshot of a conversation in the shared store
+ * (`src/lib/share.ts`) and returns a short link to `/share/[id]`. Snapshots
+ * expire after 30 days and can be revoked early with `DELETE /api/share/[id]`.
+ */
+
+/**
+ * Creates a share link. Only the fields the shared page shows are kept. Each
+ * client has its own share quota (`ACTION_RATE_LIMITS`), separate from the chat quota.
+ *
+ * @param request - JSON `ShareRequestBody`
+ * @returns `ShareResponseBody` with the link and its revoke token, or an `ApiErrorResponse`
+ */
+export async function POST(request: NextRequest) {
+  let headers: Record<string, string> = {};
+
+  try {
+    const client = getClientIdentity(request.headers);
+    const rateLimit = await checkActionRateLimit('share', client.identifier, client.tier);
+    headers = buildRateLimitHeaders(rateLimit);
+    if (!rateLimit.success) {
+      throw new ChatApiError('RATE_LIMITED', 'Too many share links. Please try again later.', {
+        retryAfterSeconds: Math.ceil(rateLimit.retryAfter / 1000),
+      });
+    }
+
+    const shareRequest = parseShareRequest(await request.json().catch(() => null));
+    if (!shareRequest) {
+      throw new ChatApiError('INVALID_INPUT', 'Invalid share request. Please include at least one question.');
+    }
+
+    const { share, revokeToken } = await createShare(shareRequest);
+    const body: ShareResponseBody = {
+      id: share.id,
+      url: new URL(`/share/${share.id}`, request.nextUrl.origin).toString(),
+      revokeToken,
+      expiresAt: share.expiresAt,
+    };
+    return NextResponse.json(body, { status: 201, headers });
+  } catch (error) {
+    const apiError = toChatApiError(error);
+    if (apiError.status >= 500) {
+      console.error('Error in share API route:', error);
+    }
+    return NextResponse.json({ error: apiError.toJSON() }, { status: apiError.status, headers });
+  }
+}
@@ -0,0 +1,91 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { SharedConversationView } from '@/components/share/SharedConversationView';
+import { getShare, getShareExcerpt } from '@/lib/share';
+
+/**
+ * Shared Conversation Page
+ *
+ * A read-only copy of a conversation someone shared from the chat header.
+ * Snapshots live in the shared store, so every request reads it fresh and a
+ * revoked or expired link turns into a 404 straight away.
+ */
+
+export const dynamic = 'force-dynamic';
+
+interface SharePageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Metadata and the page both need the snapshot; this reads the store once per request.
+const loadShare = cache((id: string) => getShare(id));
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { dateStyle: 'long', timeZone: 'UTC' });
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const { id } = await params;
+  const share = await loadShare(id);
+  if (!share) {
+    return { title: 'Shared conversation not found | Stardew Sage', robots: { index: false, follow: false } };
+  }
+
+  const title = `${share.title} | Stardew Sage`;
+  const description = getShareExcerpt(share);
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      url: `/share/${share.id}`,
+      siteName: 'Stardew Sage',
+      images: [{ url: '/icons/stardew-sage.jpg', alt: 'Stardew Sage' }],
+      type: 'article',
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+      images: ['/icons/stardew-sage.jpg'],
+    },
+    // Shared chats are public to anyone with the link, but they aren't meant to turn up in search.
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function SharedConversationPage({ params }: SharePageProps) {
+  const { id } = await params;
+  const share = await loadShare(id);
+  if (!share) notFound();
+
+  return (
+    <main className="min-h-screen p-4 md:p-8 bg-paper-texture bg-repeat">
+      <div className="max-w-3xl mx-auto">
+        <header className="mb-6 bg-menu-paper border-2 border-menu-border rounded-stardew-lg p-5 shadow-stardew">
+          <p className="text-sm font-pixel tracking-pixel text-stardew-green-600">Shared from Stardew Sage</p>
+          <h1 className="mt-1 text-2xl md:text-3xl font-pixel text-stardew-brown-600 break-words">{share.title}</h1>
+          <p className="mt-2 text-xs font-body text-stardew-brown-500">
+            Shared on {formatDate(share.createdAt)} · This link stops working on {formatDate(share.expiresAt)}
+          </p>
+        </header>
+
+        <section className="bg-[#F6F1E5] border-2 border-menu-border rounded-stardew-lg p-3 sm:p-5 shadow-stardew-xl">
+          <SharedConversationView messages={share.messages} />
+        </section>
+
+        <footer className="mt-6 text-center font-body text-sm text-stardew-brown-500">
+          <Link
+            href="/"
+            className="inline-flex items-center gap-1.5 rounded-stardew-lg border-2 border-menu-border bg-menu-paper px-3 py-2 font-pixel text-stardew-brown-700 transition-colors hover:bg-stardew-green-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-stardew-blue-300"
+          >
+            Ask Stardew Sage your own question
+          </Link>
+          <p className="mt-3">Not affiliated with ConcernedApe or Stardew Valley</p>
+        </footer>
+      </div>
+    </main>
+  );
+}
@@ -1,18 +1,57 @@
 'use client';
 
 import { FormEvent, useCallback, useEffect, useRef, useState } from 'react';
-import { ChatHeader } from '@/components/chat/ChatHeader';
+import { ChatHeader, type ShareStatus } from '@/components/chat/ChatHeader';
 import { ChatMessage } from '@/components/chat/ChatMessage';
-import { SavedTipsPanel } from '@/components/chat/SavedTipsPanel';
+import { ConversationSidebar } from '@/components/chat/ConversationSidebar';
+import { SavedTipsPanel, type PendingTipImport, type TipTransferStatus } from '@/components/chat/SavedTipsPanel';
+import type { SavedTipChanges } from '@/components/chat/SavedTipCard';
 import { PromptCarousel } from '@/components/chat/PromptCarousel';
 import { LoadingIndicator } from '@/components/chat/LoadingIndicator';
 import { ErrorBanner } from '@/components/chat/ErrorBanner';
+import { FarmProfilePanel, type SaveImportStatus } from '@/components/chat/FarmProfilePanel';
+import { QuotaStatus } from '@/components/chat/QuotaStatus';
+import { AnswerModeSelector } from '@/components/chat/AnswerModeSelector';
+import { useAnswerMode } from '../hooks/useAnswerMode';
+import { useConversations } from '../hooks/useConversations';
+import { useCountdown } from '../hooks/useCountdown';
+import { useFarmProfile } from '../hooks/useFarmProfile';
 import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
 import { useSavedTips } from '../hooks/useSavedTips';
+import { useSharedLinks } from '../hooks/useSharedLinks';
+import { createApiError, parseApiError } from '../lib/api-errors';
+import { formatCalendarAsText } from '../lib/calendar';
+import { formatCitationsAsText } from '../lib/citations';
 import { copyTextToClipboard } from '../lib/clipboard';
+import { buildConversationTitle, generateConversationId, serializeMessage } from '../lib/conversations';
+import { downloadTextFile } from '../lib/download';
+import { forkThread, getFork, switchVariant } from '../lib/message-variants';
+import { importSaveFile, SaveImportError } from '../lib/save-import';
+import { parseRateLimitHeaders, type RateLimitQuota } from '../lib/rate-limit-headers';
+import { suggestTipTags } from '../lib/saved-tips';
+import { buildTranscriptFileName, TRANSCRIPT_FORMATTERS } from '../lib/transcript-export';
+import { readSseData } from '../lib/sse';
+import {
+  formatTipsAsMarkdown,
+  mergeImportedTips,
+  readTipsFile,
+  serializeTipsExport,
+  TipImportError,
+} from '../lib/tips-transfer';
 import { trackUmamiEvent } from '../lib/umami';
-import type { ChatMessage as Message } from '../types/chat';
-import type { SavedTip } from '../types/tips';
+import type {
+  ChatHistoryTurn,
+  ChatMessage as Message,
+  ChatMessageStatus,
+  ChatRequestBody,
+  ChatStreamEvent,
+  MessageFork,
+} from '../types/chat';
+import type { ApiError } from '../types/api';
+import type { FeedbackRequestBody, MessageFeedback } from '../types/feedback';
+import type { ShareRequestBody, ShareResponseBody } from '../types/share';
+import type { SavedTip, TipExportFormat, TipImportStrategy } from '../types/tips';
+import { MAX_HISTORY_ENTRIES, MAX_MESSAGE_LENGTH, TRANSCRIPT_EXPORT_FORMATS, type TranscriptExportFormat } from '../constants/chat';
 import { PROMPT_COUNT, PROMPT_POOL, type PromptSuggestion } from '../constants/prompts';
 
 const INITIAL_ASSISTANT_MESSAGE: Message = {
@@ -51,10 +90,35 @@ const formatTranscript = (messages: Message[]) =>
           : '';
       const speaker = message.role === 'user' ? 'You' : 'Stardew Sage';
       const prefix = timestamp ? `[${timestamp}] ` : '';
-      return `${prefix}${speaker}: ${message.content}`;
+      const calendar = message.calendar ? `\n${formatCalendarAsText(message.calendar)}` : '';
+      const sources = message.citations?.length ? `\n${formatCitationsAsText(message.citations)}` : '';
+      return `${prefix}${speaker}: ${message.content}${calendar}${sources}`;
     })
     .join('\n\n');
 
+interface SendMessageOptions {
+  /** Clear the composer when sending; otherwise it is cleared once the answer settles. */
+  clearInput?: boolean;
+  /** Leave the composer untouched, for sends that don't come from it. */
+  preserveInput?: boolean;
+  baseMessages?: Message[];
+  /** Earlier versions the new message replaces, from `forkThread()`. */
+  fork?: MessageFork;
+  /** Answer the question at the end of `baseMessages` again instead of adding a new one. */
+  isRegeneration?: boolean;
+}
+
+const toHistoryTurns = (messages: Message[]): ChatHistoryTurn[] =>
+  messages.map(({ role, content }) => ({ role, content }));
+
+const updateStreamingMessage = (messages: Message[], update: (message: Message) => Message) => {
+  const index = messages.findLastIndex((message) => message.status === 'streaming');
+  if (index === -1) return messages;
+  const next = [...messages];
+  next[index] = update(next[index]);
+  return next;
+};
+
 const generateTipId = () => {
   if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
     return crypto.randomUUID();
@@ -66,17 +130,55 @@ export default function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([INITIAL_ASSISTANT_MESSAGE]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
   const [activePrompt, setActivePrompt] = useState<PromptSuggestion | null>(null);
   const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
   const [isSavedTipsOpen, setIsSavedTipsOpen] = useState(false);
+  const [pendingTipImport, setPendingTipImport] = useState<PendingTipImport | null>(null);
+  const [tipTransferStatus, setTipTransferStatus] = useState<TipTransferStatus | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isFarmProfileOpen, setIsFarmProfileOpen] = useState(false);
+  const [saveImportStatus, setSaveImportStatus] = useState<SaveImportStatus | null>(null);
+  const [isImportingSave, setIsImportingSave] = useState(false);
+  const [quota, setQuota] = useState<RateLimitQuota | null>(null);
+  const [shareStatus, setShareStatus] = useState<ShareStatus>('idle');
+  const [shareError, setShareError] = useState<string | null>(null);
 
   const prefersReducedMotion = usePrefersReducedMotion();
-  const { savedTips, isTipSaved, saveTip, removeTip, removeTipByContent, clearTips } = useSavedTips();
+  const secondsUntilReset = useCountdown(quota?.resetAt ?? null);
+  const isThrottled = quota !== null && quota.remaining <= 0 && secondsUntilReset > 0;
+  const wasThrottledRef = useRef(false);
+  const {
+    savedTips,
+    storageIssue: tipStorageIssue,
+    isTipSaved,
+    saveTip,
+    updateTip,
+    removeTip,
+    removeTipByContent,
+    clearTips,
+    importTips,
+  } = useSavedTips();
+  const {
+    conversations,
+    activeConversation,
+    activeConversationId,
+    hasLoaded: hasLoadedConversations,
+    saveConversation,
+    selectConversation,
+    renameConversation,
+    deleteConversation,
+  } = useConversations();
+  const { addLink: addSharedLink, removeLink: removeSharedLink, getLatestLink } = useSharedLinks();
+  const { profile, updateProfile, clearProfile } = useFarmProfile();
+  const { mode: answerMode, setMode: setAnswerMode } = useAnswerMode();
+  const hasRestoredConversationRef = useRef(false);
+  const isStreaming = messages.some((message) => message.status === 'streaming');
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const copyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [promptSuggestions, setPromptSuggestions] = useState<PromptSuggestion[]>(() =>
     PROMPT_POOL.slice(0, PROMPT_COUNT),
   );
@@ -89,11 +191,37 @@ export default function ChatInterface() {
     setPromptSuggestions(shufflePrompts(PROMPT_POOL).slice(0, PROMPT_COUNT));
   }, []);
 
+  // Once the limit resets the old quota is stale; the next response reports a fresh one.
+  useEffect(() => {
+    if (wasThrottledRef.current && !isThrottled) {
+      setQuota(null);
+      setError(null);
+    }
+    wasThrottledRef.current = isThrottled;
+  }, [isThrottled]);
+
+  // Reopen the conversation that was active before the page was reloaded.
+  useEffect(() => {
+    if (!hasLoadedConversations || hasRestoredConversationRef.current) return;
+    hasRestoredConversationRef.current = true;
+    if (activeConversation) {
+      setMessages(activeConversation.messages);
+    }
+  }, [activeConversation, hasLoadedConversations]);
+
+  // Persist settled messages; a conversation only exists once the player has asked something.
+  useEffect(() => {
+    if (!hasRestoredConversationRef.current || isStreaming) return;
+    if (!messages.some((message) => message.role === 'user')) return;
+    saveConversation(activeConversationId ?? generateConversationId(), messages);
+  }, [activeConversationId, isStreaming, messages, saveConversation]);
+
   useEffect(
     () => () => {
       if (copyTimeoutRef.current) {
         clearTimeout(copyTimeoutRef.current);
       }
+      abortControllerRef.current?.abort();
     },
     [],
   );
@@ -107,59 +235,335 @@ export default function ChatInterface() {
   }, []);
 
   const sendMessage = useCallback(
-    async (message: string, options: { clearInput?: boolean } = {}) => {
-      if (isLoading) return;
-      const { clearInput = true } = options;
+    async (message: string, options: SendMessageOptions = {}) => {
+      if (isLoading || isThrottled) return;
+      const { clearInput = true, preserveInput = false, baseMessages = messages, fork, isRegeneration = false } = options;
       const trimmedMessage = message.trim();
       if (!trimmedMessage) return;
 
-      const userMessage: Message = {
-        role: 'user',
-        content: trimmedMessage,
-        timestamp: new Date(),
-      };
+      // A regeneration answers the question already at the end of `baseMessages`. Its placeholder
+      // carries the fork right away, so the previous answers stay reachable even if this one fails.
+      const historyMessages = isRegeneration ? baseMessages.slice(0, -1) : baseMessages;
+      const nextMessage: Message = isRegeneration
+        ? { role: 'assistant', content: '', timestamp: new Date(), status: 'streaming', ...fork }
+        : { role: 'user', content: trimmedMessage, timestamp: new Date(), ...fork };
 
-      setMessages((prev) => [...prev, userMessage]);
+      setMessages([...baseMessages, nextMessage]);
       setError(null);
-      if (clearInput) {
+      if (clearInput && !preserveInput) {
         setInput('');
       }
       setIsLoading(true);
-      trackUmamiEvent('message_sent');
+      trackUmamiEvent(isRegeneration ? 'answer_regenerated' : 'message_sent', { mode: answerMode });
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      let hasStarted = isRegeneration;
+      let isFinished = false;
+      let isCached = false;
+      let promptVersion: string | undefined;
+      let streamError: ApiError | null = null;
+
+      const settleStreamingMessage = (status?: ChatMessageStatus) =>
+        setMessages((prev) => updateStreamingMessage(prev, (current) => ({ ...current, status })));
 
       try {
+        const requestBody: ChatRequestBody = {
+          message: trimmedMessage,
+          history: toHistoryTurns(historyMessages.slice(-MAX_HISTORY_ENTRIES)),
+          stream: true,
+          mode: answerMode,
+          ...(profile ? { profile } : {}),
+          ...(isRegeneration ? { regenerate: true } : {}),
+        };
         const response = await fetch('/api/chat', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ message: trimmedMessage }),
+          body: JSON.stringify(requestBody),
+          signal: controller.signal,
         });
 
-        if (!response.ok) {
-          throw new Error('Failed to get response from Stardew Sage');
+        // Sent before the body, so every event about this answer can be tied to its prompt variant.
+        promptVersion = response.headers.get('X-Prompt-Version') ?? undefined;
+        const nextQuota = parseRateLimitHeaders(response.headers);
+        if (nextQuota) {
+          setQuota(nextQuota);
         }
 
-        const data = await response.json();
-        const assistantMessage: Message = {
-          role: 'assistant',
-          content: data.response,
-          timestamp: new Date(),
-        };
-        setMessages((prev) => [...prev, assistantMessage]);
-        trackUmamiEvent('message_received');
+        if (!response.ok || !response.body) {
+          // A regeneration's placeholder is already in the log; left streaming, it would block saving for good.
+          settleStreamingMessage('incomplete');
+          const apiError =
+            parseApiError(await response.json().catch(() => null)) ??
+            createApiError('INTERNAL_ERROR', 'Failed to get response from Stardew Sage');
+          setError(apiError);
+          trackUmamiEvent('message_failed', { code: apiError.code, promptVersion });
+          return;
+        }
+
+        for await (const data of readSseData(response.body)) {
+          const event = JSON.parse(data) as ChatStreamEvent;
+
+          if (event.type === 'delta') {
+            if (!hasStarted) {
+              hasStarted = true;
+              setMessages((prev) => [
+                ...prev,
+                { role: 'assistant', content: event.text, timestamp: new Date(), status: 'streaming' },
+              ]);
+            } else {
+              setMessages((prev) =>
+                updateStreamingMessage(prev, (current) => ({ ...current, content: current.content + event.text })),
+              );
+            }
+          } else if (event.type === 'tool') {
+            const { invocation } = event;
+            if (!hasStarted) {
+              hasStarted = true;
+              setMessages((prev) => [
+                ...prev,
+                { role: 'assistant', content: '', timestamp: new Date(), status: 'streaming', toolInvocations: [invocation] },
+              ]);
+            } else {
+              setMessages((prev) =>
+                updateStreamingMessage(prev, (current) => ({
+                  ...current,
+                  toolInvocations: [...(current.toolInvocations ?? []), invocation],
+                })),
+              );
+            }
+            trackUmamiEvent('tool_used', { tool: invocation.name, promptVersion });
+          } else if (event.type === 'refusal') {
+            // A refusal replaces anything streamed so far, including tool results.
+            const { refusal } = event;
+            const refusedMessage: Message = {
+              role: 'assistant',
+              content: refusal.message,
+              timestamp: new Date(),
+              status: 'streaming',
+              refusal,
+            };
+            if (!hasStarted) {
+              hasStarted = true;
+              setMessages((prev) => [...prev, refusedMessage]);
+            } else {
+              setMessages((prev) =>
+                updateStreamingMessage(prev, (current) => ({
+                  ...refusedMessage,
+                  timestamp: current.timestamp,
+                  alternatives: current.alternatives,
+                  variantIndex: current.variantIndex,
+                })),
+              );
+            }
+            trackUmamiEvent('message_refused', { reason: refusal.reason, promptVersion });
+          } else if (event.type === 'done') {
+            isFinished = true;
+            const { citations, calendar, cached, model, mode } = event;
+            isCached = cached === true;
+            promptVersion = event.promptVersion;
+            setMessages((prev) =>
+              updateStreamingMessage(prev, (current) => ({
+                ...current,
+                citations: citations?.length ? citations : undefined,
+                calendar,
+                cached,
+                model,
+                promptVersion,
+                mode,
+              })),
+            );
+          } else {
+            streamError = parseApiError(event);
+            break;
+          }
+        }
+
+        if (isFinished) {
+          settleStreamingMessage(undefined);
+          trackUmamiEvent('message_received', { promptVersion, ...(isCached ? { cached: true } : {}) });
+        } else {
+          settleStreamingMessage('incomplete');
+          const apiError =
+            streamError ?? createApiError('STREAM_INTERRUPTED', 'The answer was interrupted before it finished.');
+          setError(apiError);
+          trackUmamiEvent('message_failed', { code: apiError.code, promptVersion });
+        }
       } catch (err) {
-        console.error('Error:', err);
-        setError('Sorry, something went wrong. Please try again.');
+        settleStreamingMessage('incomplete');
+        if (controller.signal.aborted) {
+          trackUmamiEvent('message_cancelled', { promptVersion });
+        } else {
+          console.error('Error:', err);
+          const apiError = hasStarted
+            ? createApiError('STREAM_INTERRUPTED', 'The answer was interrupted before it finished.')
+            : createApiError('NETWORK_ERROR', 'Could not reach Stardew Sage.');
+          setError(apiError);
+          trackUmamiEvent('message_failed', { code: apiError.code, promptVersion });
+        }
       } finally {
+        abortControllerRef.current = null;
         setIsLoading(false);
-        if (!clearInput) {
+        if (!clearInput && !preserveInput) {
           setInput('');
         }
         inputRef.current?.focus();
       }
     },
+    [answerMode, isLoading, isThrottled, messages, profile],
+  );
+
+  // Resend the last question, dropping it and any partial answer so it is not duplicated.
+  // Forks on either message are carried over so earlier versions are not lost.
+  const handleRetry = useCallback(() => {
+    const lastUserIndex = messages.findLastIndex((message) => message.role === 'user');
+    if (lastUserIndex === -1) return;
+
+    trackUmamiEvent('message_retried', { code: error?.code });
+    const question = messages[lastUserIndex];
+    const answerFork = getFork(messages[lastUserIndex + 1]);
+    void sendMessage(
+      question.content,
+      answerFork
+        ? { baseMessages: messages.slice(0, lastUserIndex + 1), fork: answerFork, isRegeneration: true }
+        : { baseMessages: messages.slice(0, lastUserIndex), fork: getFork(question) },
+    );
+  }, [error?.code, messages, sendMessage]);
+
+  const handleRegenerate = useCallback(
+    (index: number) => {
+      const question = messages[index - 1];
+      if (question?.role !== 'user') return;
+      const { baseMessages, fork } = forkThread(messages, index);
+      void sendMessage(question.content, { baseMessages, fork, isRegeneration: true, preserveInput: true });
+    },
+    [messages, sendMessage],
+  );
+
+  // Editing a question forks the conversation there; the original question and its answers stay as a variant.
+  const handleEditMessage = useCallback(
+    (index: number, content: string) => {
+      if (!content.trim()) return;
+      const { baseMessages, fork } = forkThread(messages, index);
+      trackUmamiEvent('message_edited');
+      void sendMessage(content, { baseMessages, fork, preserveInput: true });
+    },
+    [messages, sendMessage],
+  );
+
+  const handleSwitchVariant = useCallback(
+    (index: number, target: number) => {
+      if (isLoading) return;
+      setMessages((prev) => switchVariant(prev, index, target));
+      setError(null);
+    },
     [isLoading],
   );
 
+  // Ratings are saved with the conversation right away; reporting them to the feedback log is best-effort.
+  const handleFeedback = useCallback(
+    (index: number, feedback: MessageFeedback) => {
+      const answer = messages[index];
+      if (answer?.role !== 'assistant') return;
+      setMessages((prev) => prev.map((message, position) => (position === index ? { ...message, feedback } : message)));
+      trackUmamiEvent('answer_feedback', {
+        rating: feedback.rating,
+        reasons: feedback.reasons.join(','),
+        promptVersion: answer.promptVersion,
+      });
+
+      const question = messages[index - 1];
+      const body: FeedbackRequestBody = {
+        ...feedback,
+        messageId: `${activeConversationId ?? 'unsaved'}:${buildMessageKey(answer, index)}`,
+        question: question?.role === 'user' ? question.content : '',
+        answer: answer.content,
+        model: answer.model,
+        promptVersion: answer.promptVersion,
+      };
+      fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }).catch((error) => console.error('Failed to send feedback:', error));
+    },
+    [activeConversationId, messages],
+  );
+
+  const handleStopResponse = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const openConversation = useCallback(
+    (conversationId: string | null, nextMessages: Message[]) => {
+      selectConversation(conversationId);
+      setMessages(nextMessages);
+      setError(null);
+      setInput('');
+      setIsSidebarOpen(false);
+    },
+    [selectConversation],
+  );
+
+  const handleNewConversation = useCallback(() => {
+    if (isLoading) return;
+    openConversation(null, [INITIAL_ASSISTANT_MESSAGE]);
+    trackUmamiEvent('conversation_started');
+    inputRef.current?.focus();
+  }, [isLoading, openConversation]);
+
+  const handleSelectConversation = useCallback(
+    (conversationId: string) => {
+      if (isLoading || conversationId === activeConversationId) return;
+      const conversation = conversations.find((entry) => entry.id === conversationId);
+      if (!conversation) return;
+      openConversation(conversation.id, conversation.messages);
+      trackUmamiEvent('conversation_opened');
+    },
+    [activeConversationId, conversations, isLoading, openConversation],
+  );
+
+  const handleDeleteConversation = useCallback(
+    (conversationId: string) => {
+      if (conversationId === activeConversationId) {
+        if (isLoading) return;
+        openConversation(null, [INITIAL_ASSISTANT_MESSAGE]);
+      }
+      deleteConversation(conversationId);
+      trackUmamiEvent('conversation_deleted');
+    },
+    [activeConversationId, deleteConversation, isLoading, openConversation],
+  );
+
+  const handleImportSave = useCallback(
+    async (file: File) => {
+      setIsImportingSave(true);
+      setSaveImportStatus(null);
+      try {
+        const { farmerName, farmName, profile: importedProfile } = await importSaveFile(file);
+        updateProfile(importedProfile);
+        setSaveImportStatus({
+          tone: 'success',
+          message: `Imported ${farmerName || 'your farmer'}${farmName ? ` of ${farmName} Farm` : ''}.`,
+        });
+        trackUmamiEvent('save_imported');
+      } catch (err) {
+        const reason = err instanceof SaveImportError ? err.reason : 'CORRUPT';
+        if (!(err instanceof SaveImportError)) {
+          console.error('Failed to import save file:', err);
+        }
+        setSaveImportStatus({
+          tone: 'error',
+          message: err instanceof SaveImportError ? err.message : "That save couldn't be read. Please try another file.",
+        });
+        trackUmamiEvent('save_import_failed', { reason });
+      } finally {
+        setIsImportingSave(false);
+      }
+    },
+    [updateProfile],
+  );
+
   const handleCopyMessage = useCallback(
     async (messageId: string, content: string) => {
       const trimmedContent = content.trim();
@@ -193,17 +597,26 @@ export default function ChatInterface() {
         return;
       }
 
+      // The player message right before the answer is the question it answers.
+      const messageIndex = messages.indexOf(message);
+      const previous = messageIndex > 0 ? messages[messageIndex - 1] : undefined;
+      const question = previous?.role === 'user' ? previous.content.trim() : undefined;
+
       const newTip: SavedTip = {
         id: messageKey || generateTipId(),
         content,
+        question: question || undefined,
         timestamp: getMessageTimestampIso(message.timestamp),
         savedAt: new Date().toISOString(),
+        citations: message.citations,
+        calendar: message.calendar,
+        tags: suggestTipTags(`${question ?? ''}\n${content}`),
       };
 
       saveTip(newTip);
       trackUmamiEvent('saved_tip_added');
     },
-    [isTipSaved, removeTipByContent, saveTip],
+    [isTipSaved, messages, removeTipByContent, saveTip],
   );
 
   const handleRemoveTip = useCallback(
@@ -214,12 +627,75 @@ export default function ChatInterface() {
     [removeTip],
   );
 
+  const handleUpdateTip = useCallback(
+    (tipId: string, changes: SavedTipChanges) => {
+      updateTip(tipId, changes);
+      if ('pinned' in changes) {
+        trackUmamiEvent('saved_tip_pinned', { pinned: Boolean(changes.pinned) });
+      }
+    },
+    [updateTip],
+  );
+
   const handleClearSavedTips = useCallback(() => {
     if (savedTips.length === 0) return;
     clearTips();
     trackUmamiEvent('saved_tip_removed', { reason: 'clear_all' });
   }, [clearTips, savedTips.length]);
 
+  const handleExportTips = useCallback(
+    (format: TipExportFormat) => {
+      if (savedTips.length === 0) return;
+      const date = new Date();
+      const fileName = `stardew-sage-tips-${date.toISOString().slice(0, 10)}`;
+      if (format === 'json') {
+        downloadTextFile(`${fileName}.json`, serializeTipsExport(savedTips, date), 'application/json');
+      } else {
+        downloadTextFile(`${fileName}.md`, formatTipsAsMarkdown(savedTips, date), 'text/markdown');
+      }
+      setTipTransferStatus(null);
+      trackUmamiEvent('saved_tips_exported', { format, count: savedTips.length });
+    },
+    [savedTips],
+  );
+
+  const handleImportTipsFile = useCallback(
+    async (file: File) => {
+      setPendingTipImport(null);
+      setTipTransferStatus(null);
+      try {
+        const { tips, skipped } = await readTipsFile(file);
+        const { duplicates } = mergeImportedTips(savedTips, tips, 'merge').summary;
+        setPendingTipImport({ fileName: file.name, tips, skipped, duplicates });
+      } catch (err) {
+        const reason = err instanceof TipImportError ? err.reason : 'INVALID_JSON';
+        if (!(err instanceof TipImportError)) {
+          console.error('Failed to read saved tips file:', err);
+        }
+        setTipTransferStatus({
+          tone: 'error',
+          message: err instanceof TipImportError ? err.message : "That file couldn't be read. Please try another file.",
+        });
+        trackUmamiEvent('saved_tips_import_failed', { reason });
+      }
+    },
+    [savedTips],
+  );
+
+  const handleConfirmTipImport = useCallback(
+    (strategy: TipImportStrategy) => {
+      if (!pendingTipImport) return;
+      const { added, duplicates } = importTips(pendingTipImport.tips, strategy);
+      setPendingTipImport(null);
+      setTipTransferStatus({
+        tone: 'success',
+        message: `Imported ${added} ${added === 1 ? 'tip' : 'tips'}${duplicates > 0 ? `, skipped ${duplicates} already saved` : ''}.`,
+      });
+      trackUmamiEvent('saved_tips_imported', { strategy, added, duplicates });
+    },
+    [importTips, pendingTipImport],
+  );
+
   const handleCopyTranscript = useCallback(async () => {
     const transcript = formatTranscript(messages);
     if (!transcript.trim()) return;
@@ -231,9 +707,119 @@ export default function ChatInterface() {
     scheduleCopyFeedback('transcript');
   }, [messages, scheduleCopyFeedback]);
 
+  const hasQuestion = messages.some((message) => message.role === 'user');
+
+  const handleExportTranscript = useCallback(
+    async (format: TranscriptExportFormat) => {
+      const exportFormat = TRANSCRIPT_EXPORT_FORMATS.find((entry) => entry.id === format);
+      if (!hasQuestion || !exportFormat) return;
+      const details = {
+        title: activeConversation?.title ?? buildConversationTitle(messages),
+        conversationId: activeConversationId,
+        exportedAt: new Date(),
+      };
+      try {
+        const transcript = await TRANSCRIPT_FORMATTERS[format](messages, details);
+        downloadTextFile(buildTranscriptFileName(details, exportFormat.extension), transcript, exportFormat.mimeType);
+        trackUmamiEvent('transcript_exported', { format });
+      } catch (error) {
+        // Only the HTML formatter loads code on demand, which fails if the network drops.
+        console.error('Failed to export transcript:', error);
+      }
+    },
+    [activeConversation, activeConversationId, hasQuestion, messages],
+  );
+
+  const sharedLink = getLatestLink(activeConversationId);
+
+  useEffect(() => {
+    setShareError(null);
+  }, [activeConversationId]);
+
+  // The greeting is the same in every chat, so a shared page starts at the first question.
+  const handleShareConversation = useCallback(async () => {
+    const firstQuestionIndex = messages.findIndex((message) => message.role === 'user');
+    if (firstQuestionIndex === -1 || isStreaming || shareStatus !== 'idle') return;
+
+    setShareStatus('creating');
+    setShareError(null);
+    const title = activeConversation?.title ?? buildConversationTitle(messages);
+    const body: ShareRequestBody = { title, messages: messages.slice(firstQuestionIndex).map(serializeMessage) };
+    try {
+      const response = await fetch('/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data: unknown = await response.json().catch(() => null);
+      if (!response.ok) {
+        const apiError =
+          parseApiError(data) ?? createApiError('INTERNAL_ERROR', "Couldn't create a share link. Please try again.");
+        setShareError(apiError.message);
+        trackUmamiEvent('conversation_share_failed', { code: apiError.code });
+        return;
+      }
+
+      const share = data as ShareResponseBody;
+      addSharedLink({ ...share, conversationId: activeConversationId, title, createdAt: new Date().toISOString() });
+      if (await copyTextToClipboard(share.url)) {
+        scheduleCopyFeedback('share-link');
+      }
+      trackUmamiEvent('conversation_shared', { messages: body.messages.length });
+    } catch (err) {
+      console.error('Failed to share conversation:', err);
+      setShareError("Couldn't reach Stardew Sage. Check your connection and try again.");
+    } finally {
+      setShareStatus('idle');
+    }
+  }, [
+    activeConversation,
+    activeConversationId,
+    addSharedLink,
+    isStreaming,
+    messages,
+    scheduleCopyFeedback,
+    shareStatus,
+  ]);
+
+  const handleCopyShareLink = useCallback(async () => {
+    if (!sharedLink) return;
+    const copied = await copyTextToClipboard(sharedLink.url);
+    if (!copied) return;
+    scheduleCopyFeedback('share-link');
+  }, [scheduleCopyFeedback, sharedLink]);
+
+  const handleRevokeShare = useCallback(async () => {
+    if (!sharedLink || shareStatus !== 'idle') return;
+
+    setShareStatus('revoking');
+    setShareError(null);
+    try {
+      const response = await fetch(`/api/share/${encodeURIComponent(sharedLink.id)}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${sharedLink.revokeToken}` },
+      });
+      // A link the server no longer has has expired or was revoked in another tab, so there is nothing left to keep.
+      if (response.ok || response.status === 404) {
+        removeSharedLink(sharedLink.id);
+        trackUmamiEvent('share_revoked');
+        return;
+      }
+      const apiError =
+        parseApiError(await response.json().catch(() => null)) ??
+        createApiError('INTERNAL_ERROR', "Couldn't revoke the link. Please try again.");
+      setShareError(apiError.message);
+    } catch (err) {
+      console.error('Failed to revoke share link:', err);
+      setShareError("Couldn't reach Stardew Sage. Check your connection and try again.");
+    } finally {
+      setShareStatus('idle');
+    }
+  }, [removeSharedLink, sharedLink, shareStatus]);
+
   const handlePromptClick = useCallback(
     async (prompt: PromptSuggestion) => {
-      if (isLoading) return;
+      if (isLoading || isThrottled) return;
       setActivePrompt(prompt);
       setInput(prompt);
       trackUmamiEvent('prompt_clicked', { prompt });
@@ -244,7 +830,7 @@ export default function ChatInterface() {
       }
       inputRef.current?.focus();
     },
-    [isLoading, sendMessage],
+    [isLoading, isThrottled, sendMessage],
   );
 
   const renderMessage = useCallback(
@@ -258,105 +844,199 @@ export default function ChatInterface() {
           prefersReducedMotion={prefersReducedMotion}
           copiedMessageId={copiedMessageId}
           isBookmarked={isTipSaved(message.content)}
+          isActionDisabled={isLoading || isThrottled}
           onToggleBookmark={handleToggleBookmark}
           onCopyMessage={handleCopyMessage}
+          onRegenerate={messages[index - 1]?.role === 'user' ? () => handleRegenerate(index) : undefined}
+          onEdit={message.role === 'user' ? (content) => handleEditMessage(index, content) : undefined}
+          onSwitchVariant={(target) => handleSwitchVariant(index, target)}
+          onFeedback={
+            message.role === 'assistant' && index > 0 && message.content
+              ? (feedback) => handleFeedback(index, feedback)
+              : undefined
+          }
         />
       );
     },
-    [copiedMessageId, handleCopyMessage, handleToggleBookmark, isTipSaved, prefersReducedMotion],
+    [
+      copiedMessageId,
+      handleCopyMessage,
+      handleEditMessage,
+      handleFeedback,
+      handleRegenerate,
+      handleSwitchVariant,
+      handleToggleBookmark,
+      isLoading,
+      isThrottled,
+      isTipSaved,
+      messages,
+      prefersReducedMotion,
+    ],
   );
 
   const errorMessageId = error ? 'chat-error-message' : undefined;
+  const inputDescriptionIds = [errorMessageId, quota ? 'chat-quota-status' : undefined].filter(Boolean).join(' ') || undefined;
   const isTranscriptCopied = copiedMessageId === 'transcript';
 
   return (
-    <div className="flex flex-col max-w-3xl mx-auto px-3 sm:px-4 py-4 sm:py-6 min-h-[100dvh]">
-      <SavedTipsPanel
-        isOpen={isSavedTipsOpen}
-        savedTips={savedTips}
-        onToggle={() => setIsSavedTipsOpen((prev) => !prev)}
-        onClear={handleClearSavedTips}
-        onRemove={handleRemoveTip}
+    <div className="flex flex-col lg:flex-row lg:items-start lg:gap-6 px-3 sm:px-4 py-4 sm:py-6 min-h-[100dvh]">
+      <ConversationSidebar
+        isOpen={isSidebarOpen}
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        isDisabled={isLoading}
+        onToggle={() => setIsSidebarOpen((prev) => !prev)}
+        onNewConversation={handleNewConversation}
+        onSelect={handleSelectConversation}
+        onRename={renameConversation}
+        onDelete={handleDeleteConversation}
       />
 
-      <section
-        className="flex flex-col h-[85vh] sm:h-[80vh] bg-[#F6F1E5] rounded-stardew-lg overflow-hidden shadow-stardew-xl border-2 border-menu-border"
-        aria-label="Chat conversation"
-        id="chat-interface"
-      >
-        <ChatHeader
-          onCopyTranscript={handleCopyTranscript}
-          isTranscriptCopied={isTranscriptCopied}
-          prefersReducedMotion={prefersReducedMotion}
+      <div className="flex flex-col flex-1 min-w-0 max-w-3xl w-full mx-auto">
+        <FarmProfilePanel
+          isOpen={isFarmProfileOpen}
+          profile={profile}
+          importStatus={saveImportStatus}
+          isImporting={isImportingSave}
+          onToggle={() => setIsFarmProfileOpen((prev) => !prev)}
+          onChange={updateProfile}
+          onClear={clearProfile}
+          onImportSave={handleImportSave}
         />
 
-        <div
-          className="flex-1 p-3 sm:p-5 overflow-y-auto bg-paper-texture bg-repeat bg-[#F6F1E5] bg-opacity-90 space-y-3 sm:space-y-4"
-          role="log"
-          aria-live="polite"
-          aria-atomic="false"
-          tabIndex={0}
-          aria-label="Stardew Sage conversation"
-          id="chat-log"
+        <SavedTipsPanel
+          isOpen={isSavedTipsOpen}
+          savedTips={savedTips}
+          storageIssue={tipStorageIssue}
+          onToggle={() => setIsSavedTipsOpen((prev) => !prev)}
+          onClear={handleClearSavedTips}
+          onRemove={handleRemoveTip}
+          onUpdate={handleUpdateTip}
+          pendingImport={pendingTipImport}
+          transferStatus={tipTransferStatus}
+          onExport={handleExportTips}
+          onImportFile={handleImportTipsFile}
+          onConfirmImport={handleConfirmTipImport}
+          onCancelImport={() => setPendingTipImport(null)}
+        />
+
+        <section
+          className="flex flex-col h-[85vh] sm:h-[80vh] bg-[#F6F1E5] rounded-stardew-lg overflow-hidden shadow-stardew-xl border-2 border-menu-border"
+          aria-label="Chat conversation"
+          id="chat-interface"
         >
-          {messages.map(renderMessage)}
-          {isLoading && <LoadingIndicator prefersReducedMotion={prefersReducedMotion} />}
-          <ErrorBanner error={error} errorMessageId={errorMessageId} />
-          <div ref={messagesEndRef} />
-        </div>
-
-        <div className="border-t-2 border-menu-border bg-menu-paper px-2 sm:px-4 pt-3 sm:pt-4 pb-2 sm:pb-4">
-          <PromptCarousel
-            prompts={promptSuggestions}
-            activePrompt={activePrompt}
-            isLoading={isLoading}
-            onPromptClick={handlePromptClick}
+          <ChatHeader
+            onCopyTranscript={handleCopyTranscript}
+            isTranscriptCopied={isTranscriptCopied}
+            canExportTranscript={hasQuestion}
+            onExportTranscript={handleExportTranscript}
+            canShare={hasQuestion && !isStreaming}
+            sharedLink={sharedLink}
+            shareStatus={shareStatus}
+            shareError={shareError}
+            isShareLinkCopied={copiedMessageId === 'share-link'}
+            onShare={handleShareConversation}
+            onCopyShareLink={handleCopyShareLink}
+            onRevokeShare={handleRevokeShare}
+            prefersReducedMotion={prefersReducedMotion}
           />
-          <form
-            onSubmit={handleSubmit}
-            className="flex items-center gap-2 sm:gap-3"
-            aria-label="Send a message to Stardew Sage"
-            aria-controls="chat-log"
+
+          <div
+            className="flex-1 p-3 sm:p-5 overflow-y-auto bg-paper-texture bg-repeat bg-[#F6F1E5] bg-opacity-90 space-y-3 sm:space-y-4"
+            role="log"
+            aria-live="polite"
+            aria-atomic="false"
+            tabIndex={0}
+            aria-label="Stardew Sage conversation"
+            id="chat-log"
           >
-            <input
-              type="text"
-              value={input}
-              onChange={(event) => setInput(event.target.value)}
-              placeholder="Ask about Stardew Valley..."
-              className="h-11 sm:h-12 min-h-[44px] flex-1 px-3 sm:px-4 text-sm sm:text-base rounded-stardew-lg border-2 border-menu-border focus:outline-none focus:border-stardew-green-400 font-body text-stardew-brown-800 placeholder-stardew-brown-400 bg-white transition-colors"
-              disabled={isLoading}
-              aria-label="Message input"
-              ref={inputRef}
-              aria-controls="chat-log"
-              aria-describedby={errorMessageId}
+            {messages.map(renderMessage)}
+            {isLoading && !isStreaming && <LoadingIndicator prefersReducedMotion={prefersReducedMotion} />}
+            <ErrorBanner
+              error={error}
+              errorMessageId={errorMessageId}
+              onRetry={handleRetry}
+              isRetryDisabled={isLoading || isThrottled}
             />
-            <button
-              type="submit"
-              disabled={isLoading || !input.trim()}
-              className={`
-                h-11 sm:h-12 min-h-[44px] min-w-[4.5rem] sm:min-w-[5.5rem] px-3 sm:px-4
-                rounded-stardew-lg border-2 border-menu-border
-                font-pixel text-xs sm:text-sm
-                transition-all duration-300 ease-in-out
-                transform hover:scale-[1.02] active:scale-[0.98]
-                focus:outline-none focus:ring-1 focus:ring-stardew-blue-400
-                flex items-center justify-center gap-1.5 sm:gap-2
-                ${!input.trim() || isLoading
-                  ? 'bg-stardew-brown-100/50 text-stardew-brown-500 cursor-not-allowed border-stardew-brown-200'
-                  : 'bg-menu-paper hover:bg-gradient-to-r hover:from-stardew-green-50 hover:to-white text-stardew-brown-800 hover:border-stardew-green-300 hover:shadow-stardew-sm'
-                }
-              `}
-              aria-label="Send message"
+            <div ref={messagesEndRef} />
+          </div>
+
+          <div className="border-t-2 border-menu-border bg-menu-paper px-2 sm:px-4 pt-3 sm:pt-4 pb-2 sm:pb-4">
+            <AnswerModeSelector mode={answerMode} isDisabled={isLoading} onChange={setAnswerMode} />
+            <PromptCarousel
+              prompts={promptSuggestions}
+              activePrompt={activePrompt}
+              isLoading={isLoading || isThrottled}
+              onPromptClick={handlePromptClick}
+            />
+            <form
+              onSubmit={handleSubmit}
+              className="flex items-center gap-2 sm:gap-3"
+              aria-label="Send a message to Stardew Sage"
               aria-controls="chat-log"
             >
-              <span className="hidden sm:inline">Send</span>
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 sm:h-5 sm:w-5" viewBox="0 0 20 20" fill="currentColor">
-                <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
-              </svg>
-            </button>
-          </form>
-        </div>
-      </section>
+              <input
+                type="text"
+                value={input}
+                onChange={(event) => setInput(event.target.value)}
+                placeholder={isThrottled ? 'Taking a short break...' : 'Ask about Stardew Valley...'}
+                className="h-11 sm:h-12 min-h-[44px] flex-1 px-3 sm:px-4 text-sm sm:text-base rounded-stardew-lg border-2 border-menu-border focus:outline-none focus:border-stardew-green-400 font-body text-stardew-brown-800 placeholder-stardew-brown-400 bg-white transition-colors"
+                disabled={isLoading || isThrottled}
+                maxLength={MAX_MESSAGE_LENGTH}
+                aria-label="Message input"
+                ref={inputRef}
+                aria-controls="chat-log"
+                aria-describedby={inputDescriptionIds}
+              />
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={handleStopResponse}
+                  className="h-11 sm:h-12 min-h-[44px] min-w-[4.5rem] sm:min-w-[5.5rem] px-3 sm:px-4 rounded-stardew-lg border-2 border-stardew-red-300 bg-stardew-red-100 font-pixel text-xs sm:text-sm text-stardew-red-600 transition-colors hover:bg-stardew-red-100/70 focus:outline-none focus:ring-1 focus:ring-stardew-blue-400 flex items-center justify-center gap-1.5 sm:gap-2"
+                  aria-label="Stop generating response"
+                  aria-controls="chat-log"
+                >
+                  <span className="hidden sm:inline">Stop</span>
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 sm:h-5 sm:w-5" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+                    <rect x="5" y="5" width="10" height="10" rx="1.5" />
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={isThrottled || !input.trim()}
+                  className={`
+                    h-11 sm:h-12 min-h-[44px] min-w-[4.5rem] sm:min-w-[5.5rem] px-3 sm:px-4
+                    rounded-stardew-lg border-2 border-menu-border
+                    font-pixel text-xs sm:text-sm
+                    transition-all duration-300 ease-in-out
+                    transform hover:scale-[1.02] active:scale-[0.98]
+                    focus:outline-none focus:ring-1 focus:ring-stardew-blue-400
+                    flex items-center justify-center gap-1.5 sm:gap-2
+                    ${!input.trim() || isThrottled
+                      ? 'bg-stardew-brown-100/50 text-stardew-brown-500 cursor-not-allowed border-stardew-brown-200'
+                      : 'bg-menu-paper hover:bg-gradient-to-r hover:from-stardew-green-50 hover:to-white text-stardew-brown-800 hover:border-stardew-green-300 hover:shadow-stardew-sm'
+                    }
+                  `}
+                  aria-label="Send message"
+                  aria-controls="chat-log"
+                >
+                  <span className="hidden sm:inline">Send</span>
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 sm:h-5 sm:w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
+                  </svg>
+                </button>
+              )}
+            </form>
+            <QuotaStatus
+              id="chat-quota-status"
+              quota={quota}
+              secondsUntilReset={secondsUntilReset}
+              isThrottled={isThrottled}
+            />
+          </div>
+        </section>
+      </div>
     </div>
   );
 }
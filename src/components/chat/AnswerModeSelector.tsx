@@ -0,0 +1,36 @@
+import { ANSWER_MODES, type AnswerMode } from '../../constants/chat';
+
+interface AnswerModeSelectorProps {
+  mode: AnswerMode;
+  isDisabled: boolean;
+  onChange: (mode: AnswerMode) => void;
+}
+
+export const AnswerModeSelector = ({ mode, isDisabled, onChange }: AnswerModeSelectorProps) => (
+  <fieldset className="mb-2 flex flex-wrap items-center gap-1.5" disabled={isDisabled}>
+    <legend className="sr-only">Answer style</legend>
+    <span className="mr-1 text-[11px] font-pixel tracking-pixel text-stardew-brown-500" aria-hidden="true">
+      Answer style:
+    </span>
+    {ANSWER_MODES.map((option) => {
+      const isSelected = option.id === mode;
+      return (
+        <label
+          key={option.id}
+          title={option.description}
+          className={`cursor-pointer rounded-full border px-2.5 py-1 text-[11px] sm:text-xs font-body transition-colors focus-within:ring-2 focus-within:ring-stardew-blue-400 ${isSelected ? 'border-stardew-green-400 bg-stardew-green-100 text-stardew-green-700' : 'border-menu-border bg-white/80 text-stardew-brown-600 hover:bg-stardew-green-50'} ${isDisabled ? 'cursor-not-allowed opacity-60' : ''}`}
+        >
+          <input
+            type="radio"
+            name="answer-mode"
+            value={option.id}
+            checked={isSelected}
+            onChange={() => onChange(option.id)}
+            className="sr-only"
+          />
+          {option.label}
+        </label>
+      );
+    })}
+  </fieldset>
+);
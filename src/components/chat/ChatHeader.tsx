@@ -1,14 +1,226 @@
+import { useCallback, useRef, useState } from 'react';
 import Image from 'next/image';
+import { SHARE_LINK_TTL_DAYS, TRANSCRIPT_EXPORT_FORMATS, type TranscriptExportFormat } from '../../constants/chat';
+import { useDismissOnOutsideClick } from '../../hooks/useDismissOnOutsideClick';
+import type { SharedLink } from '@/types/share';
+
+/** What the share popover is waiting on, if anything. */
+export type ShareStatus = 'idle' | 'creating' | 'revoking';
 
 interface ChatHeaderProps {
   onCopyTranscript: () => void;
   isTranscriptCopied: boolean;
+  /** False until the chat has a question, since there is nothing worth exporting yet. */
+  canExportTranscript: boolean;
+  onExportTranscript: (format: TranscriptExportFormat) => void;
+  /** False until there is a settled answer to share. */
+  canShare: boolean;
+  /** The newest link made from this conversation in this browser. */
+  sharedLink: SharedLink | null;
+  shareStatus: ShareStatus;
+  shareError: string | null;
+  isShareLinkCopied: boolean;
+  onShare: () => void;
+  onCopyShareLink: () => void;
+  onRevokeShare: () => void;
   prefersReducedMotion: boolean;
 }
 
+const HEADER_BUTTON_CLASS =
+  'flex items-center gap-1 rounded-stardew-sm border border-white/30 bg-white/10 px-2 py-1 text-[10px] sm:text-xs font-pixel tracking-pixel text-white transition-colors hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white/60 focus:ring-offset-1 focus:ring-offset-stardew-green-600 disabled:cursor-not-allowed disabled:opacity-50';
+
+const TranscriptExportMenu = ({
+  canExportTranscript,
+  onExportTranscript,
+}: Pick<ChatHeaderProps, 'canExportTranscript' | 'onExportTranscript'>) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const close = useCallback(() => setIsOpen(false), []);
+  useDismissOnOutsideClick(menuRef, isOpen, close);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        disabled={!canExportTranscript}
+        className={HEADER_BUTTON_CLASS}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-controls="transcript-export-menu"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 24 24"
+          className="h-3.5 w-3.5"
+          aria-hidden="true"
+          focusable="false"
+        >
+          <path fill="currentColor" d="M5 20h14v-2H5v2zm14-9h-4V3H9v8H5l7 7 7-7z" />
+        </svg>
+        <span>Export</span>
+      </button>
+      {isOpen && (
+        <ul
+          id="transcript-export-menu"
+          role="menu"
+          aria-label="Export conversation"
+          className="absolute right-0 z-20 mt-1 w-44 rounded-stardew border-2 border-menu-border bg-menu-paper py-1 shadow-stardew"
+        >
+          {TRANSCRIPT_EXPORT_FORMATS.map((format) => (
+            <li key={format.id} role="none">
+              <button
+                type="button"
+                role="menuitem"
+                onClick={() => {
+                  setIsOpen(false);
+                  onExportTranscript(format.id);
+                }}
+                className="flex w-full items-center justify-between px-3 py-1.5 text-left text-xs font-body text-stardew-brown-700 hover:bg-stardew-green-50 focus:bg-stardew-green-50 focus:outline-none"
+              >
+                {format.label}
+                <span className="text-[10px] text-stardew-brown-400">.{format.extension}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const POPOVER_BUTTON_CLASS =
+  'rounded-stardew-sm border border-menu-border bg-white px-2 py-1 font-pixel text-xs text-stardew-brown-700 transition-colors hover:bg-stardew-green-50 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 disabled:cursor-not-allowed disabled:opacity-50';
+
+const formatShareDate = (value: string) => new Date(value).toLocaleDateString([], { dateStyle: 'medium' });
+
+const ShareConversationPopover = ({
+  canShare,
+  sharedLink,
+  shareStatus,
+  shareError,
+  isShareLinkCopied,
+  onShare,
+  onCopyShareLink,
+  onRevokeShare,
+}: Pick<
+  ChatHeaderProps,
+  | 'canShare'
+  | 'sharedLink'
+  | 'shareStatus'
+  | 'shareError'
+  | 'isShareLinkCopied'
+  | 'onShare'
+  | 'onCopyShareLink'
+  | 'onRevokeShare'
+>) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const close = useCallback(() => setIsOpen(false), []);
+  useDismissOnOutsideClick(popoverRef, isOpen, close);
+  const isBusy = shareStatus !== 'idle';
+
+  return (
+    <div className="relative" ref={popoverRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        disabled={!canShare && !sharedLink}
+        className={HEADER_BUTTON_CLASS}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-controls="share-conversation-popover"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 24 24"
+          className="h-3.5 w-3.5"
+          aria-hidden="true"
+          focusable="false"
+        >
+          <path
+            fill="currentColor"
+            d="M18 16.08c-.76 0-1.44.3-1.96.77L8.91 12.7c.05-.23.09-.46.09-.7s-.04-.47-.09-.7l7.05-4.11A2.99 2.99 0 1 0 15 5c0 .24.04.47.09.7L8.04 9.81a3 3 0 1 0 0 4.38l7.12 4.16c-.05.21-.08.43-.08.65a2.92 2.92 0 1 0 2.92-2.92z"
+          />
+        </svg>
+        <span>Share</span>
+      </button>
+      {isOpen && (
+        <div
+          id="share-conversation-popover"
+          role="dialog"
+          aria-label="Share conversation"
+          className="absolute right-0 z-20 mt-1 w-72 space-y-2 rounded-stardew border-2 border-menu-border bg-menu-paper p-3 text-xs font-body text-stardew-brown-700 shadow-stardew"
+        >
+          {sharedLink ? (
+            <>
+              <p>
+                Anyone with this link can read the chat as it was on {formatShareDate(sharedLink.createdAt)}. It
+                stops working on {formatShareDate(sharedLink.expiresAt)}.
+              </p>
+              <div className="flex gap-1">
+                <input
+                  type="text"
+                  readOnly
+                  value={sharedLink.url}
+                  onFocus={(event) => event.target.select()}
+                  className="min-w-0 flex-1 rounded-stardew-sm border border-menu-border bg-white px-2 py-1 text-stardew-brown-800 focus:outline-none focus:border-stardew-green-400"
+                  aria-label="Share link"
+                />
+                <button type="button" onClick={onCopyShareLink} className={POPOVER_BUTTON_CLASS}>
+                  {isShareLinkCopied ? 'Copied!' : 'Copy'}
+                </button>
+              </div>
+              <div className="flex justify-between gap-2">
+                <button
+                  type="button"
+                  onClick={onShare}
+                  disabled={!canShare || isBusy}
+                  className={POPOVER_BUTTON_CLASS}
+                  title="Make a new link that includes messages sent since this one"
+                >
+                  {shareStatus === 'creating' ? 'Sharing…' : 'Share again'}
+                </button>
+                <button type="button" onClick={onRevokeShare} disabled={isBusy} className={POPOVER_BUTTON_CLASS}>
+                  {shareStatus === 'revoking' ? 'Revoking…' : 'Revoke link'}
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p>
+                Create a read-only link to a copy of this chat. Later messages aren&apos;t added, and the link stops
+                working after {SHARE_LINK_TTL_DAYS} days.
+              </p>
+              <button type="button" onClick={onShare} disabled={!canShare || isBusy} className={POPOVER_BUTTON_CLASS}>
+                {shareStatus === 'creating' ? 'Creating link…' : 'Create link'}
+              </button>
+            </>
+          )}
+          {shareError && (
+            <p className="text-stardew-red-600" role="alert">
+              {shareError}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const ChatHeader = ({
   onCopyTranscript,
   isTranscriptCopied,
+  canExportTranscript,
+  onExportTranscript,
+  canShare,
+  sharedLink,
+  shareStatus,
+  shareError,
+  isShareLinkCopied,
+  onShare,
+  onCopyShareLink,
+  onRevokeShare,
   prefersReducedMotion,
 }: ChatHeaderProps) => (
   <header
@@ -31,7 +243,7 @@ export const ChatHeader = ({
       <button
         type="button"
         onClick={onCopyTranscript}
-        className="flex items-center gap-1 rounded-stardew-sm border border-white/30 bg-white/10 px-2 py-1 text-[10px] sm:text-xs font-pixel tracking-pixel text-white transition-colors hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white/60 focus:ring-offset-1 focus:ring-offset-stardew-green-600"
+        className={HEADER_BUTTON_CLASS}
         aria-label="Copy entire conversation"
       >
         <svg
@@ -53,6 +265,17 @@ export const ChatHeader = ({
           </span>
         )}
       </button>
+      <TranscriptExportMenu canExportTranscript={canExportTranscript} onExportTranscript={onExportTranscript} />
+      <ShareConversationPopover
+        canShare={canShare}
+        sharedLink={sharedLink}
+        shareStatus={shareStatus}
+        shareError={shareError}
+        isShareLinkCopied={isShareLinkCopied}
+        onShare={onShare}
+        onCopyShareLink={onCopyShareLink}
+        onRevokeShare={onRevokeShare}
+      />
       <div className="text-[10px] sm:text-xs font-pixel bg-stardew-green-700 px-1.5 sm:px-2 py-0.5 sm:py-1 rounded-stardew-sm">
         Powered by Gemini
       </div>
@@ -1,27 +1,98 @@
+import { FormEvent, KeyboardEvent, useState } from 'react';
 import Image from 'next/image';
 import ReactMarkdown from 'react-markdown';
+import { CitationList } from '@/components/chat/CitationList';
+import { SeasonCalendarView } from '@/components/chat/SeasonCalendarView';
+import { ToolInvocationList } from '@/components/chat/ToolInvocationList';
 import { ChatMessage as ChatMessageType } from '@/types/chat';
+import type { MessageFeedback } from '@/types/feedback';
+import { ANSWER_MODES, MAX_MESSAGE_LENGTH, type RefusalReason } from '../../constants/chat';
+import { FEEDBACK_REASONS, type FeedbackRating, type FeedbackReason } from '../../constants/feedback';
+import { getVariantCount } from '../../lib/message-variants';
 
 interface ChatMessageProps {
   message: ChatMessageType;
   messageKey: string;
   prefersReducedMotion: boolean;
   copiedMessageId: string | null;
-  isBookmarked: boolean;
-  onToggleBookmark: (messageKey: string, message: ChatMessageType) => void;
+  isBookmarked?: boolean;
+  /** Disables regenerate, edit and variant switching while an answer is in flight. */
+  isActionDisabled: boolean;
+  /** Hides the save button when left out, as on read-only shared pages. */
+  onToggleBookmark?: (messageKey: string, message: ChatMessageType) => void;
   onCopyMessage: (messageKey: string, content: string) => Promise<void>;
+  onRegenerate?: () => void;
+  onEdit?: (content: string) => void;
+  onSwitchVariant?: (variantIndex: number) => void;
+  onFeedback?: (feedback: MessageFeedback) => void;
 }
 
+const ACTION_BUTTON_CLASS =
+  'inline-flex h-6 min-w-6 items-center justify-center rounded-stardew-sm border border-menu-border bg-white/80 px-1 text-stardew-brown-500 transition-colors hover:bg-white focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 focus:ring-offset-1 focus:ring-offset-menu-paper disabled:cursor-not-allowed disabled:opacity-50';
+
+const REFUSAL_LABELS: Record<RefusalReason, string> = {
+  injection: 'Request declined',
+  'off-topic': 'Outside the valley',
+  'prompt-leak': 'Answer withheld',
+};
+
+const RATING_BUTTON_CLASS =
+  'inline-flex h-6 w-6 items-center justify-center rounded-stardew-sm border transition-colors focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 focus:ring-offset-1 focus:ring-offset-menu-paper';
+
 export const ChatMessage = ({
   message,
   messageKey,
   prefersReducedMotion,
   copiedMessageId,
-  isBookmarked,
+  isBookmarked = false,
+  isActionDisabled,
   onToggleBookmark,
   onCopyMessage,
+  onRegenerate,
+  onEdit,
+  onSwitchVariant,
+  onFeedback,
 }: ChatMessageProps) => {
   const isUser = message.role === 'user';
+  const isStreaming = message.status === 'streaming';
+  const isIncomplete = message.status === 'incomplete';
+  const [areSourcesOpen, setAreSourcesOpen] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+  const isEditing = draft !== null;
+  const variantCount = getVariantCount(message);
+  const variantIndex = message.variantIndex ?? 0;
+  const citations = message.citations ?? [];
+  const toolInvocations = message.toolInvocations ?? [];
+  const sourcesListId = `${messageKey}-sources`;
+  const feedback = message.feedback;
+  const rate = (rating: FeedbackRating) => {
+    if (feedback?.rating === rating) return;
+    onFeedback?.({ rating, reasons: [] });
+  };
+  const toggleReason = (reason: FeedbackReason) => {
+    if (!feedback) return;
+    const reasons = feedback.reasons.includes(reason)
+      ? feedback.reasons.filter((entry) => entry !== reason)
+      : [...feedback.reasons, reason];
+    onFeedback?.({ ...feedback, reasons });
+  };
+  const submitEdit = (event?: FormEvent<HTMLFormElement>) => {
+    event?.preventDefault();
+    if (!draft?.trim() || !onEdit) return;
+    onEdit(draft);
+    setDraft(null);
+  };
+
+  const handleDraftKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Escape') setDraft(null);
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      submitEdit();
+    }
+  };
+
+  const modeLabel = message.mode && ANSWER_MODES.find((option) => option.id === message.mode)?.label;
+
   const timestampLabel =
     message.timestamp instanceof Date
       ? message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
@@ -38,35 +109,196 @@ export const ChatMessage = ({
       <div
         className={`
           max-w-[80%] sm:max-w-[68%] rounded-stardew-lg px-4 py-3 shadow-stardew-sm
-          ${isUser ? 'bg-stardew-blue-400 text-white rounded-tr-none' : 'bg-menu-paper border border-menu-border rounded-tl-none'}
+          ${isUser ? 'bg-stardew-blue-400 text-white rounded-tr-none' : message.refusal ? 'bg-stardew-gold-50 border border-dashed border-stardew-gold-400 rounded-tl-none' : 'bg-menu-paper border border-menu-border rounded-tl-none'}
         `}
       >
+        {!isUser && toolInvocations.length > 0 && <ToolInvocationList invocations={toolInvocations} />}
+
+        {message.refusal && (
+          <p className="mb-1.5 inline-flex items-center gap-1 text-[11px] font-pixel tracking-pixel text-stardew-gold-700" role="note">
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-3.5 w-3.5" aria-hidden="true" focusable="false">
+              <path fill="currentColor" d="M12 1 3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4z" />
+            </svg>
+            {REFUSAL_LABELS[message.refusal.reason]}
+          </p>
+        )}
+
         <div className={`mb-2 ${isUser ? 'font-pixel text-base leading-relaxed' : 'font-body text-base leading-relaxed'}`}>
-          {isUser ? (
+          {isUser && isEditing ? (
+            <form onSubmit={submitEdit} className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+                onKeyDown={handleDraftKeyDown}
+                rows={3}
+                maxLength={MAX_MESSAGE_LENGTH}
+                className="w-full min-w-[12rem] rounded-stardew-sm border border-menu-border bg-white px-2 py-1 font-body text-sm text-stardew-brown-800 focus:outline-none focus:border-stardew-green-400"
+                aria-label="Edit your question"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2 font-pixel text-xs">
+                <button type="button" onClick={() => setDraft(null)} className="px-2 py-1 text-stardew-blue-100 hover:text-white">
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isActionDisabled || !draft.trim()}
+                  className="rounded-stardew-sm border border-white/60 bg-white/20 px-2 py-1 text-white hover:bg-white/30 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Send
+                </button>
+              </div>
+            </form>
+          ) : isUser ? (
             <p>{message.content}</p>
           ) : (
             <div className="prose prose-sm max-w-none prose-headings:font-pixel prose-headings:text-stardew-brown-700 prose-p:text-stardew-brown-800 prose-strong:text-stardew-brown-900 prose-strong:font-semibold prose-li:text-stardew-brown-800">
               <ReactMarkdown>{message.content}</ReactMarkdown>
+              {isStreaming && (
+                <span
+                  className={`inline-block h-4 w-1.5 translate-y-0.5 bg-stardew-brown-400 ${prefersReducedMotion ? '' : 'animate-pulse'}`}
+                  aria-hidden="true"
+                />
+              )}
             </div>
           )}
         </div>
 
+        {!isUser && !isStreaming && message.calendar && (
+          <div className="mb-2">
+            <SeasonCalendarView calendar={message.calendar} />
+          </div>
+        )}
+
+        {isIncomplete && (
+          <p className="mb-1 text-[11px] font-body text-stardew-red-500" role="note">
+            This answer stopped before it finished.
+          </p>
+        )}
+
+        {!isUser && !isStreaming && citations.length > 0 && (
+          <div className="mt-2 border-t border-menu-border/60 pt-2">
+            <button
+              type="button"
+              onClick={() => setAreSourcesOpen((prev) => !prev)}
+              className="inline-flex items-center gap-1 rounded-stardew-sm text-[11px] font-pixel tracking-pixel text-stardew-brown-500 hover:text-stardew-brown-700 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400"
+              aria-expanded={areSourcesOpen}
+              aria-controls={sourcesListId}
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                viewBox="0 0 20 20"
+                className={`h-3 w-3 transition-transform ${areSourcesOpen ? 'rotate-90' : ''}`}
+                aria-hidden="true"
+                focusable="false"
+              >
+                <path fill="currentColor" d="M7 5l6 5-6 5V5z" />
+              </svg>
+              Sources ({citations.length})
+            </button>
+            {areSourcesOpen && (
+              <div className="mt-1.5">
+                <CitationList id={sourcesListId} citations={citations} />
+              </div>
+            )}
+          </div>
+        )}
+
         <div
           className={`mt-2 flex items-center justify-end gap-2 text-xs ${isUser ? 'text-stardew-blue-100' : 'text-stardew-brown-400'}`}
         >
-          {!isUser && (
-            <>
+          {onSwitchVariant && variantCount > 1 && (
+            <div className="mr-auto inline-flex items-center gap-1" role="group" aria-label={isUser ? 'Question versions' : 'Answer versions'}>
               <button
                 type="button"
-                onClick={() => onToggleBookmark(messageKey, message)}
-                className={`inline-flex h-6 w-6 items-center justify-center rounded-stardew-sm border transition-colors focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 focus:ring-offset-1 focus:ring-offset-menu-paper ${isBookmarked ? 'bg-stardew-gold-100 border-stardew-gold-300 text-stardew-gold-600' : 'bg-white/80 border-menu-border text-stardew-brown-500 hover:bg-white'}`}
-                aria-label={isBookmarked ? 'Remove from saved tips' : 'Save this tip'}
-                aria-pressed={isBookmarked}
+                onClick={() => onSwitchVariant(variantIndex - 1)}
+                disabled={isActionDisabled || variantIndex === 0}
+                className={ACTION_BUTTON_CLASS}
+                aria-label={isUser ? 'Previous version of this question' : 'Previous answer'}
               >
-                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-3.5 w-3.5" aria-hidden="true" focusable="false">
-                  <path fill="currentColor" d="M12 17.27 18.18 21l-1.64-7.03L22 9.24l-7.19-.62L12 2 9.19 8.62 2 9.24l5.46 4.73L5.82 21z" />
-                </svg>
+                ‹
               </button>
+              <span className="font-body tabular-nums" aria-live="polite">
+                {variantIndex + 1} / {variantCount}
+              </span>
+              <button
+                type="button"
+                onClick={() => onSwitchVariant(variantIndex + 1)}
+                disabled={isActionDisabled || variantIndex === variantCount - 1}
+                className={ACTION_BUTTON_CLASS}
+                aria-label={isUser ? 'Next version of this question' : 'Next answer'}
+              >
+                ›
+              </button>
+            </div>
+          )}
+          {isUser && onEdit && !isEditing && (
+            <button
+              type="button"
+              onClick={() => setDraft(message.content)}
+              disabled={isActionDisabled}
+              className={ACTION_BUTTON_CLASS}
+              aria-label="Edit and resend this question"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-3.5 w-3.5" aria-hidden="true" focusable="false">
+                <path fill="currentColor" d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zm17.71-10.21a1 1 0 0 0 0-1.41l-2.34-2.34a1 1 0 0 0-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" />
+              </svg>
+            </button>
+          )}
+          {!isUser && !isStreaming && (
+            <>
+              {onFeedback && (
+                <div className="inline-flex items-center gap-1" role="group" aria-label="Rate this answer">
+                  <button
+                    type="button"
+                    onClick={() => rate('up')}
+                    className={`${RATING_BUTTON_CLASS} ${feedback?.rating === 'up' ? 'bg-stardew-green-100 border-stardew-green-400 text-stardew-green-700' : 'bg-white/80 border-menu-border text-stardew-brown-500 hover:bg-white'}`}
+                    aria-label="Helpful answer"
+                    aria-pressed={feedback?.rating === 'up'}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-3.5 w-3.5" aria-hidden="true" focusable="false">
+                      <path fill="currentColor" d="M2 21h4V9H2v12zm20-11a2 2 0 0 0-2-2h-6.31l.95-4.57.03-.32a1.5 1.5 0 0 0-.44-1.06L13.17 1 6.59 7.59A2 2 0 0 0 6 9v10a2 2 0 0 0 2 2h9a2 2 0 0 0 1.84-1.22l3.02-7.05c.09-.23.14-.47.14-.73v-2z" />
+                    </svg>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => rate('down')}
+                    className={`${RATING_BUTTON_CLASS} ${feedback?.rating === 'down' ? 'bg-stardew-red-100 border-stardew-red-300 text-stardew-red-600' : 'bg-white/80 border-menu-border text-stardew-brown-500 hover:bg-white'}`}
+                    aria-label="Unhelpful answer"
+                    aria-pressed={feedback?.rating === 'down'}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-3.5 w-3.5" aria-hidden="true" focusable="false">
+                      <path fill="currentColor" d="M22 3h-4v12h4V3zM2 14a2 2 0 0 0 2 2h6.31l-.95 4.57-.03.32c0 .41.17.79.44 1.06L10.83 23l6.58-6.59A2 2 0 0 0 18 15V5a2 2 0 0 0-2-2H7a2 2 0 0 0-1.84 1.22l-3.02 7.05c-.09.23-.14.47-.14.73v2z" />
+                    </svg>
+                  </button>
+                </div>
+              )}
+              {onToggleBookmark && (
+                <button
+                  type="button"
+                  onClick={() => onToggleBookmark(messageKey, message)}
+                  className={`inline-flex h-6 w-6 items-center justify-center rounded-stardew-sm border transition-colors focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 focus:ring-offset-1 focus:ring-offset-menu-paper ${isBookmarked ? 'bg-stardew-gold-100 border-stardew-gold-300 text-stardew-gold-600' : 'bg-white/80 border-menu-border text-stardew-brown-500 hover:bg-white'}`}
+                  aria-label={isBookmarked ? 'Remove from saved tips' : 'Save this tip'}
+                  aria-pressed={isBookmarked}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-3.5 w-3.5" aria-hidden="true" focusable="false">
+                    <path fill="currentColor" d="M12 17.27 18.18 21l-1.64-7.03L22 9.24l-7.19-.62L12 2 9.19 8.62 2 9.24l5.46 4.73L5.82 21z" />
+                  </svg>
+                </button>
+              )}
+              {onRegenerate && (
+                <button
+                  type="button"
+                  onClick={onRegenerate}
+                  disabled={isActionDisabled}
+                  className={ACTION_BUTTON_CLASS}
+                  aria-label="Regenerate this answer"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-3.5 w-3.5" aria-hidden="true" focusable="false">
+                    <path fill="currentColor" d="M17.65 6.35A7.96 7.96 0 0 0 12 4a8 8 0 1 0 7.75 10h-2.08A6 6 0 1 1 12 6c1.66 0 3.14.69 4.22 1.78L13 11h7V4l-2.35 2.35z" />
+                  </svg>
+                </button>
+              )}
               <button
                 type="button"
                 onClick={() => onCopyMessage(messageKey, message.content)}
@@ -84,8 +316,36 @@ export const ChatMessage = ({
               )}
             </>
           )}
+          {!isUser && !message.refusal && modeLabel && (
+            <span className="text-[10px] font-body text-stardew-brown-400">{modeLabel}</span>
+          )}
+          {!isUser && message.cached && (
+            <span className="text-[10px] font-body text-stardew-brown-400" title="This question was answered recently, so the saved answer was reused.">
+              Cached
+            </span>
+          )}
           {timestampLabel && <time>{timestampLabel}</time>}
         </div>
+
+        {!isUser && onFeedback && feedback?.rating === 'down' && (
+          <div className="mt-2 flex flex-wrap items-center justify-end gap-1.5" role="group" aria-label="What was wrong with this answer?">
+            <span className="text-[11px] font-body text-stardew-brown-500">What was wrong?</span>
+            {FEEDBACK_REASONS.map((reason) => {
+              const isSelected = feedback.reasons.includes(reason.id);
+              return (
+                <button
+                  key={reason.id}
+                  type="button"
+                  onClick={() => toggleReason(reason.id)}
+                  className={`rounded-full border px-2 py-0.5 text-[11px] font-body transition-colors focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 ${isSelected ? 'border-stardew-red-300 bg-stardew-red-100 text-stardew-red-600' : 'border-menu-border bg-white/80 text-stardew-brown-600 hover:bg-white'}`}
+                  aria-pressed={isSelected}
+                >
+                  {reason.label}
+                </button>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       {isUser && <Avatar src="/icons/user-icon.jpg" alt="You" position="right" />}
@@ -0,0 +1,27 @@
+import { CITATION_TYPE_LABELS } from '../../lib/citations';
+import type { Citation } from '../../types/knowledge';
+
+interface CitationListProps {
+  citations: Citation[];
+  id?: string;
+}
+
+export const CitationList = ({ citations, id }: CitationListProps) => (
+  <ul id={id} className="space-y-1">
+    {citations.map((citation) => (
+      <li key={citation.id} className="flex items-baseline gap-1.5 text-xs font-body">
+        <span className="shrink-0 rounded-stardew-sm bg-stardew-brown-50 px-1 text-[10px] uppercase tracking-pixel text-stardew-brown-500">
+          {CITATION_TYPE_LABELS[citation.type]}
+        </span>
+        <a
+          href={citation.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-stardew-blue-600 underline decoration-dotted underline-offset-2 hover:text-stardew-blue-500 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400"
+        >
+          {citation.title}
+        </a>
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,151 @@
+import { FormEvent, useState } from 'react';
+import { conversationMatchesQuery } from '../../lib/conversations';
+import type { Conversation } from '../../types/conversations';
+
+interface ConversationSidebarProps {
+  isOpen: boolean;
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  isDisabled: boolean;
+  onToggle: () => void;
+  onNewConversation: () => void;
+  onSelect: (conversationId: string) => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversationId: string) => void;
+}
+
+export const ConversationSidebar = ({
+  isOpen,
+  conversations,
+  activeConversationId,
+  isDisabled,
+  onToggle,
+  onNewConversation,
+  onSelect,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const visibleConversations = conversations.filter((conversation) => conversationMatchesQuery(conversation, query));
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = (event?: FormEvent<HTMLFormElement>) => {
+    event?.preventDefault();
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="lg:w-64 lg:shrink-0" aria-label="Conversations">
+      <button
+        type="button"
+        onClick={onToggle}
+        className={`lg:hidden mb-3 inline-flex items-center justify-center gap-1 rounded-stardew-lg border-2 border-menu-border px-3 py-1.5 font-pixel text-xs sm:text-sm transition-colors ${isOpen ? 'bg-stardew-green-100 text-stardew-green-700' : 'bg-menu-paper hover:bg-stardew-green-50 text-stardew-brown-700'}`}
+        aria-expanded={isOpen}
+        aria-controls="conversation-sidebar"
+      >
+        {isOpen ? 'Hide chats' : 'Show chats'}
+        <span className="text-[10px] sm:text-xs font-body text-stardew-brown-500">({conversations.length})</span>
+      </button>
+
+      <div
+        id="conversation-sidebar"
+        className={`${isOpen ? 'flex' : 'hidden'} lg:flex flex-col gap-3 mb-4 lg:mb-0 rounded-stardew-lg border-2 border-menu-border bg-menu-paper p-3 shadow-stardew-sm lg:h-[80vh]`}
+      >
+        <button
+          type="button"
+          onClick={onNewConversation}
+          disabled={isDisabled}
+          className="inline-flex items-center justify-center gap-1 rounded-stardew-lg border-2 border-menu-border bg-white/90 px-3 py-1.5 font-pixel text-xs sm:text-sm text-stardew-brown-700 transition-colors hover:bg-stardew-green-50 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          + New chat
+        </button>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search chats..."
+          className="h-9 px-3 text-sm rounded-stardew border-2 border-menu-border bg-white font-body text-stardew-brown-800 placeholder-stardew-brown-400 focus:outline-none focus:border-stardew-green-400"
+          aria-label="Search conversations"
+        />
+
+        {visibleConversations.length === 0 ? (
+          <p className="text-sm font-body text-stardew-brown-500">
+            {conversations.length === 0 ? 'Your past chats will appear here.' : 'No chats match that search.'}
+          </p>
+        ) : (
+          <ul className="flex-1 space-y-1.5 overflow-y-auto pr-1 max-h-60 lg:max-h-none">
+            {visibleConversations.map((conversation) => {
+              const isActive = conversation.id === activeConversationId;
+
+              return (
+                <li
+                  key={conversation.id}
+                  className={`group rounded-stardew border px-2 py-1.5 ${isActive ? 'border-stardew-green-300 bg-stardew-green-50' : 'border-transparent hover:border-menu-border hover:bg-white/70'}`}
+                >
+                  {editingId === conversation.id ? (
+                    <form onSubmit={commitRename}>
+                      <input
+                        type="text"
+                        value={draftTitle}
+                        onChange={(event) => setDraftTitle(event.target.value)}
+                        onBlur={() => commitRename()}
+                        onKeyDown={(event) => {
+                          if (event.key === 'Escape') setEditingId(null);
+                        }}
+                        maxLength={80}
+                        className="w-full px-1.5 py-0.5 text-sm rounded-stardew-sm border border-menu-border bg-white font-body text-stardew-brown-800 focus:outline-none focus:border-stardew-green-400"
+                        aria-label="Conversation title"
+                        autoFocus
+                      />
+                    </form>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => onSelect(conversation.id)}
+                        disabled={isDisabled}
+                        className="flex-1 min-w-0 text-left text-sm font-body text-stardew-brown-700 truncate focus:outline-none focus:underline disabled:cursor-not-allowed"
+                        aria-current={isActive ? 'true' : undefined}
+                        title={conversation.title}
+                      >
+                        {conversation.title}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => startRename(conversation)}
+                        className="shrink-0 rounded-stardew-sm px-1 text-[11px] font-pixel text-stardew-brown-500 hover:text-stardew-brown-700 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400"
+                        aria-label={`Rename "${conversation.title}"`}
+                      >
+                        Rename
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDelete(conversation.id)}
+                        disabled={isDisabled && isActive}
+                        className="shrink-0 rounded-stardew-sm px-1 text-[11px] font-pixel text-stardew-red-500 hover:text-stardew-red-600 focus:outline-none focus:ring-2 focus:ring-stardew-red-300 disabled:cursor-not-allowed disabled:opacity-60"
+                        aria-label={`Delete "${conversation.title}"`}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+};
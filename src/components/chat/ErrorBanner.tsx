@@ -1,15 +1,47 @@
 import Image from 'next/image';
+import { formatCountdown } from '../../hooks/useCountdown';
+import type { ApiError, ApiErrorCode } from '../../types/api';
 
 interface ErrorBannerProps {
-  error: string | null;
+  error: ApiError | null;
   errorMessageId?: string;
+  onRetry?: () => void;
+  isRetryDisabled?: boolean;
 }
 
-export const ErrorBanner = ({ error, errorMessageId }: ErrorBannerProps) => {
+const ERROR_COPY: Record<ApiErrorCode, string> = {
+  RATE_LIMITED: "You've reached the question limit for now.",
+  UPSTREAM_QUOTA: 'The Sage has run out of energy for the moment. Please try again in a few minutes.',
+  CONTENT_BLOCKED: "The Sage couldn't answer that one. Try rephrasing your Stardew Valley question.",
+  INVALID_INPUT: "That message couldn't be sent. Please check it and try again.",
+  UNAUTHORIZED: "You don't have access to that.",
+  NOT_FOUND: "That couldn't be found. It may have expired or been removed.",
+  MISCONFIGURED: "Stardew Sage isn't set up correctly right now. Please let the site owner know.",
+  UPSTREAM_ERROR: 'The Sage had trouble reaching the AI service. Please try again.',
+  STREAM_INTERRUPTED: 'The answer was interrupted before it finished.',
+  INTERNAL_ERROR: 'Sorry, something went wrong. Please try again.',
+  NETWORK_ERROR: "Couldn't reach Stardew Sage. Check your connection and try again.",
+};
+
+const getErrorMessage = (error: ApiError) => {
+  if (error.code === 'RATE_LIMITED' && error.retryAfterSeconds) {
+    return `${ERROR_COPY.RATE_LIMITED} The Sage can answer again in ${formatCountdown(error.retryAfterSeconds)}.`;
+  }
+  // Validation messages from the route are specific enough to show as-is.
+  if (error.code === 'INVALID_INPUT') {
+    return error.message;
+  }
+  return ERROR_COPY[error.code];
+};
+
+export const ErrorBanner = ({ error, errorMessageId, onRetry, isRetryDisabled = false }: ErrorBannerProps) => {
   if (!error) return null;
 
+  // Rate limits clear themselves when the countdown ends, so they get no retry button.
+  const canRetry = Boolean(onRetry) && error.retryable && error.code !== 'RATE_LIMITED';
+
   return (
-    <div className="flex justify-start mb-4" role="alert" id={errorMessageId}>
+    <div className="flex justify-start mb-4" role="alert" id={errorMessageId} data-error-code={error.code}>
       <div className="flex-shrink-0 mr-2 sm:mr-3">
         <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-menu-paper border-2 border-menu-border shadow-stardew-sm overflow-hidden relative">
           <Image
@@ -22,7 +54,17 @@ export const ErrorBanner = ({ error, errorMessageId }: ErrorBannerProps) => {
         </div>
       </div>
       <div className="bg-stardew-red-100 border border-stardew-red-300 rounded-stardew-lg rounded-tl-none p-2 sm:p-3 shadow-stardew-sm">
-        <p className="text-stardew-red-600 font-body text-sm">{error}</p>
+        <p className="text-stardew-red-600 font-body text-sm">{getErrorMessage(error)}</p>
+        {canRetry && (
+          <button
+            type="button"
+            onClick={onRetry}
+            disabled={isRetryDisabled}
+            className="mt-2 inline-flex items-center gap-1 rounded-stardew-sm border border-stardew-red-300 bg-white/80 px-2.5 py-1 font-pixel text-xs tracking-pixel text-stardew-red-600 transition-colors hover:bg-white focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 focus:ring-offset-1 focus:ring-offset-stardew-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Try again
+          </button>
+        )}
       </div>
     </div>
   );
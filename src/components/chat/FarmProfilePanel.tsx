@@ -0,0 +1,289 @@
+import {
+  COMMUNITY_CENTER_BUNDLES,
+  DAYS_PER_SEASON,
+  FARM_AREAS,
+  FARM_TYPES,
+  MAX_SKILL_LEVEL,
+  MAX_YEAR,
+  SEASONS,
+  SKILLS,
+  type CommunityCenterBundle,
+  type FarmArea,
+  type FarmType,
+  type Season,
+} from '../../constants/farm';
+import type { FarmProfile } from '../../types/farm';
+
+export interface SaveImportStatus {
+  tone: 'success' | 'error';
+  message: string;
+}
+
+interface FarmProfilePanelProps {
+  isOpen: boolean;
+  profile: FarmProfile | null;
+  importStatus: SaveImportStatus | null;
+  isImporting: boolean;
+  onToggle: () => void;
+  onChange: (changes: Partial<FarmProfile>) => void;
+  onClear: () => void;
+  onImportSave: (file: File) => void;
+}
+
+const FIELD_CLASS =
+  'h-9 px-2 text-sm rounded-stardew border-2 border-menu-border bg-white font-body text-stardew-brown-800 focus:outline-none focus:border-stardew-green-400';
+const LABEL_CLASS = 'flex flex-col gap-1 text-xs font-pixel tracking-pixel text-stardew-brown-600';
+const CHECKBOX_LABEL_CLASS = 'inline-flex items-center gap-1.5 text-sm font-body text-stardew-brown-700';
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const parseLevel = (raw: string, min: number, max: number) => {
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isNaN(parsed) ? min : clamp(parsed, min, max);
+};
+
+const toggleValue = <T extends string>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+
+const SaveImportControl = ({
+  importStatus,
+  isImporting,
+  onImportSave,
+}: Pick<FarmProfilePanelProps, 'importStatus' | 'isImporting' | 'onImportSave'>) => (
+  <div className="space-y-1.5">
+    <label
+      className={`inline-flex items-center gap-1 rounded-stardew-lg border-2 border-menu-border bg-white/90 px-3 py-1.5 font-pixel text-xs sm:text-sm text-stardew-brown-700 focus-within:ring-2 focus-within:ring-stardew-blue-400 ${isImporting ? 'cursor-wait opacity-60' : 'cursor-pointer hover:bg-stardew-green-50'}`}
+    >
+      {isImporting ? 'Reading save...' : 'Import save file'}
+      <input
+        type="file"
+        className="sr-only"
+        disabled={isImporting}
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = '';
+          if (file) onImportSave(file);
+        }}
+      />
+    </label>
+    <p className="text-[11px] font-body text-stardew-brown-400">
+      Pick the file named like <code>Farm_123456789</code> from your save folder. It is read on this device and never uploaded.
+    </p>
+    {importStatus && (
+      <p
+        className={`text-xs font-body ${importStatus.tone === 'error' ? 'text-stardew-red-600' : 'text-stardew-green-700'}`}
+        role={importStatus.tone === 'error' ? 'alert' : 'status'}
+      >
+        {importStatus.message}
+      </p>
+    )}
+  </div>
+);
+
+export const FarmProfilePanel = ({
+  isOpen,
+  profile,
+  importStatus,
+  isImporting,
+  onToggle,
+  onChange,
+  onClear,
+  onImportSave,
+}: FarmProfilePanelProps) => (
+  <section className="mb-4 sm:mb-6">
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-2">
+      <div className="flex items-center gap-2">
+        {profile && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-xs sm:text-sm font-pixel tracking-pixel text-stardew-red-500 hover:text-stardew-red-600 focus:outline-none focus:ring-2 focus:ring-stardew-red-300 focus:ring-offset-1 focus:ring-offset-menu-paper"
+          >
+            Forget farm
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onToggle}
+          className={`inline-flex items-center justify-center gap-1 rounded-stardew-lg border-2 border-menu-border px-3 py-1.5 font-pixel text-xs sm:text-sm transition-colors ${isOpen ? 'bg-stardew-green-100 text-stardew-green-700' : 'bg-menu-paper hover:bg-stardew-green-50 text-stardew-brown-700'}`}
+          aria-expanded={isOpen}
+          aria-controls="farm-profile-panel"
+        >
+          {isOpen ? 'Hide my farm' : 'Show my farm'}
+          {profile && (
+            <span className="text-[10px] sm:text-xs font-body text-stardew-brown-500">
+              ({capitalize(profile.season)} {profile.day}, Y{profile.year})
+            </span>
+          )}
+        </button>
+      </div>
+    </div>
+
+    {isOpen && (
+      <div
+        id="farm-profile-panel"
+        className="mt-3 rounded-stardew-lg border-2 border-menu-border bg-menu-paper p-3 sm:p-4 shadow-stardew-sm"
+        role="region"
+        aria-label="Farm profile"
+      >
+        <div className="mb-4">
+          <SaveImportControl importStatus={importStatus} isImporting={isImporting} onImportSave={onImportSave} />
+        </div>
+
+        {!profile ? (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <p className="flex-1 text-sm font-body text-stardew-brown-500">
+              Or fill in where your save is at by hand, and answers will fit your season, skills, and progress.
+            </p>
+            <button
+              type="button"
+              onClick={() => onChange({})}
+              className="shrink-0 rounded-stardew-lg border-2 border-menu-border bg-white/90 px-3 py-1.5 font-pixel text-xs sm:text-sm text-stardew-brown-700 hover:bg-stardew-green-50 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400"
+            >
+              Add my farm
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4 max-h-72 overflow-y-auto pr-1">
+            <p className="text-[11px] font-body text-stardew-brown-400">
+              Saved on this device and sent with each question.
+            </p>
+
+            {profile.money !== undefined && (
+              <p className="text-xs font-body text-stardew-brown-600">
+                From your save: {profile.money.toLocaleString()}g
+                {profile.museumDonations !== undefined && ` · ${profile.museumDonations} museum donations`}
+                {profile.shippedItems !== undefined && ` · ${profile.shippedItems} items shipped`}
+                {profile.friendshipHearts &&
+                  ` · ${Object.values(profile.friendshipHearts).filter((hearts) => hearts > 0).length} friends`}
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <label className={LABEL_CLASS}>
+                Season
+                <select
+                  value={profile.season}
+                  onChange={(event) => onChange({ season: event.target.value as Season })}
+                  className={FIELD_CLASS}
+                >
+                  {SEASONS.map((season) => (
+                    <option key={season} value={season}>
+                      {capitalize(season)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className={LABEL_CLASS}>
+                Day
+                <input
+                  type="number"
+                  min={1}
+                  max={DAYS_PER_SEASON}
+                  value={profile.day}
+                  onChange={(event) => onChange({ day: parseLevel(event.target.value, 1, DAYS_PER_SEASON) })}
+                  className={FIELD_CLASS}
+                />
+              </label>
+              <label className={LABEL_CLASS}>
+                Year
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_YEAR}
+                  value={profile.year}
+                  onChange={(event) => onChange({ year: parseLevel(event.target.value, 1, MAX_YEAR) })}
+                  className={FIELD_CLASS}
+                />
+              </label>
+              <label className={LABEL_CLASS}>
+                Farm type
+                <select
+                  value={profile.farmType}
+                  onChange={(event) => onChange({ farmType: event.target.value as FarmType })}
+                  className={FIELD_CLASS}
+                >
+                  {FARM_TYPES.map((farmType) => (
+                    <option key={farmType.id} value={farmType.id}>
+                      {farmType.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <fieldset>
+              <legend className="mb-1.5 text-xs font-pixel tracking-pixel text-stardew-brown-600">Skill levels</legend>
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-3">
+                {SKILLS.map((skill) => (
+                  <label key={skill} className={LABEL_CLASS}>
+                    <span className="font-body text-stardew-brown-500">{capitalize(skill)}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_SKILL_LEVEL}
+                      value={profile.skills[skill]}
+                      onChange={(event) =>
+                        onChange({
+                          skills: { ...profile.skills, [skill]: parseLevel(event.target.value, 0, MAX_SKILL_LEVEL) },
+                        })
+                      }
+                      className={FIELD_CLASS}
+                    />
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset>
+              <legend className="mb-1.5 text-xs font-pixel tracking-pixel text-stardew-brown-600">Unlocked areas</legend>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-3 gap-y-1.5">
+                {FARM_AREAS.map((area) => (
+                  <label key={area.id} className={CHECKBOX_LABEL_CLASS}>
+                    <input
+                      type="checkbox"
+                      checked={profile.unlockedAreas.includes(area.id)}
+                      onChange={() => onChange({ unlockedAreas: toggleValue<FarmArea>(profile.unlockedAreas, area.id) })}
+                    />
+                    {area.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset>
+              <legend className="mb-1.5 text-xs font-pixel tracking-pixel text-stardew-brown-600">
+                Completed Community Center bundles
+              </legend>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {COMMUNITY_CENTER_BUNDLES.map(({ room, bundles }) => (
+                  <div key={room}>
+                    <p className="mb-1 text-[11px] font-body uppercase tracking-pixel text-stardew-brown-400">{room}</p>
+                    <div className="flex flex-col gap-1">
+                      {bundles.map((bundle) => (
+                        <label key={bundle} className={CHECKBOX_LABEL_CLASS}>
+                          <input
+                            type="checkbox"
+                            checked={profile.completedBundles.includes(bundle)}
+                            onChange={() =>
+                              onChange({
+                                completedBundles: toggleValue<CommunityCenterBundle>(profile.completedBundles, bundle),
+                              })
+                            }
+                          />
+                          {bundle}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </fieldset>
+          </div>
+        )}
+      </div>
+    )}
+  </section>
+);
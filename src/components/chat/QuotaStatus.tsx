@@ -0,0 +1,32 @@
+import { formatCountdown } from '../../hooks/useCountdown';
+import type { RateLimitQuota } from '../../lib/rate-limit-headers';
+
+interface QuotaStatusProps {
+  id?: string;
+  quota: RateLimitQuota | null;
+  secondsUntilReset: number;
+  isThrottled: boolean;
+}
+
+// Not a live region: the countdown ticks every second, and ErrorBanner already announces throttling.
+export const QuotaStatus = ({ id, quota, secondsUntilReset, isThrottled }: QuotaStatusProps) => {
+  if (!quota) return null;
+
+  return (
+    <p
+      id={id}
+      className={`mt-2 text-right text-[11px] sm:text-xs font-body ${isThrottled ? 'text-stardew-red-500' : 'text-stardew-brown-500'}`}
+    >
+      {isThrottled ? (
+        <>
+          Out of questions for now. You can ask again in{' '}
+          <time dateTime={`PT${secondsUntilReset}S`}>{formatCountdown(secondsUntilReset)}</time>.
+        </>
+      ) : (
+        <>
+          {quota.remaining} of {quota.limit} question{quota.limit === 1 ? '' : 's'} left
+        </>
+      )}
+    </p>
+  );
+};
@@ -0,0 +1,184 @@
+import { KeyboardEvent, useMemo, useState } from 'react';
+import { CitationList } from '@/components/chat/CitationList';
+import { SeasonCalendarView } from '@/components/chat/SeasonCalendarView';
+import { MAX_TAG_LENGTH, MAX_TIP_NOTE_LENGTH, MAX_TIP_TAGS } from '../../constants/tips';
+import { normalizeTag, suggestTipTags } from '../../lib/saved-tips';
+import type { SavedTip } from '../../types/tips';
+
+export type SavedTipChanges = Partial<Pick<SavedTip, 'tags' | 'note' | 'pinned'>>;
+
+interface SavedTipCardProps {
+  tip: SavedTip;
+  onRemove: (tipId: string) => void;
+  onUpdate: (tipId: string, changes: SavedTipChanges) => void;
+}
+
+const SMALL_BUTTON_CLASS =
+  'rounded-stardew-sm text-[11px] font-pixel tracking-pixel text-stardew-brown-500 hover:text-stardew-brown-700 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400';
+
+export const SavedTipCard = ({ tip, onRemove, onUpdate }: SavedTipCardProps) => {
+  const [tagDraft, setTagDraft] = useState('');
+  const [noteDraft, setNoteDraft] = useState<string | null>(null);
+  const suggestedTags = useMemo(
+    () => suggestTipTags(`${tip.question ?? ''}\n${tip.content}`).filter((tag) => !tip.tags.includes(tag)),
+    [tip.content, tip.question, tip.tags],
+  );
+  const canAddTags = tip.tags.length < MAX_TIP_TAGS;
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && canAddTags && !tip.tags.includes(tag)) {
+      onUpdate(tip.id, { tags: [...tip.tags, tag] });
+    }
+  };
+
+  const handleTagKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'Enter' && event.key !== ',') return;
+    event.preventDefault();
+    addTag(tagDraft);
+    setTagDraft('');
+  };
+
+  const saveNote = () => {
+    onUpdate(tip.id, { note: noteDraft ?? undefined });
+    setNoteDraft(null);
+  };
+
+  return (
+    <li className={`rounded-stardew border bg-white/90 p-3 ${tip.pinned ? 'border-stardew-gold-300' : 'border-menu-border'}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          {tip.question && (
+            <p className="mb-1 text-xs font-pixel tracking-pixel text-stardew-blue-600">Q: {tip.question}</p>
+          )}
+          <div className="text-sm font-body text-stardew-brown-700 whitespace-pre-wrap">{tip.content}</div>
+        </div>
+        <div className="flex shrink-0 flex-col items-end gap-1.5">
+          <button
+            type="button"
+            onClick={() => onUpdate(tip.id, { pinned: !tip.pinned || undefined })}
+            className={`inline-flex h-7 w-7 items-center justify-center rounded-stardew-sm border transition-colors focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 ${tip.pinned ? 'bg-stardew-gold-100 border-stardew-gold-300 text-stardew-gold-600' : 'bg-white/80 border-menu-border text-stardew-brown-500 hover:bg-white'}`}
+            aria-label={tip.pinned ? 'Unpin tip' : 'Pin tip to the top'}
+            aria-pressed={Boolean(tip.pinned)}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-3.5 w-3.5" aria-hidden="true" focusable="false">
+              <path fill="currentColor" d="M16 3v2h-1v6l2 3v2h-4v5l-1 1-1-1v-5H7v-2l2-3V5H8V3h8z" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => onRemove(tip.id)}
+            className="rounded-stardew border-2 border-stardew-brown-200 bg-stardew-brown-50 px-3 py-1.5 text-[11px] sm:text-xs font-pixel uppercase tracking-pixel text-stardew-brown-600 hover:bg-stardew-brown-100 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 focus:ring-offset-1 focus:ring-offset-white"
+            aria-label="Remove saved tip"
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+
+      {tip.calendar && (
+        <div className="mt-2 max-w-xs">
+          <SeasonCalendarView calendar={tip.calendar} />
+        </div>
+      )}
+      {tip.citations && tip.citations.length > 0 && (
+        <div className="mt-2">
+          <CitationList citations={tip.citations} />
+        </div>
+      )}
+
+      <div className="mt-2 flex flex-wrap items-center gap-1.5" role="group" aria-label="Tags">
+        {tip.tags.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 rounded-full border border-stardew-green-300 bg-stardew-green-50 px-2 py-0.5 text-[11px] font-body text-stardew-green-700"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => onUpdate(tip.id, { tags: tip.tags.filter((entry) => entry !== tag) })}
+              className="leading-none text-stardew-green-600 hover:text-stardew-red-500 focus:outline-none focus:ring-1 focus:ring-stardew-blue-400"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {canAddTags && (
+          <>
+            <input
+              type="text"
+              value={tagDraft}
+              onChange={(event) => setTagDraft(event.target.value)}
+              onKeyDown={handleTagKeyDown}
+              placeholder="Add tag"
+              maxLength={MAX_TAG_LENGTH}
+              className="h-6 w-20 rounded-full border border-menu-border bg-white px-2 text-[11px] font-body text-stardew-brown-700 focus:outline-none focus:border-stardew-green-400"
+              aria-label="Add a tag"
+            />
+            {suggestedTags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => addTag(tag)}
+                className="rounded-full border border-dashed border-menu-border px-2 py-0.5 text-[11px] font-body text-stardew-brown-500 hover:bg-stardew-green-50 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400"
+                aria-label={`Add suggested tag ${tag}`}
+              >
+                + {tag}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+
+      <div className="mt-2">
+        {noteDraft !== null ? (
+          <div className="space-y-1.5">
+            <textarea
+              value={noteDraft}
+              onChange={(event) => setNoteDraft(event.target.value)}
+              rows={2}
+              maxLength={MAX_TIP_NOTE_LENGTH}
+              className="w-full rounded-stardew-sm border border-menu-border bg-white px-2 py-1 text-xs font-body text-stardew-brown-700 focus:outline-none focus:border-stardew-green-400"
+              aria-label="Note for this tip"
+              autoFocus
+            />
+            <div className="flex justify-end gap-3">
+              <button type="button" onClick={() => setNoteDraft(null)} className={SMALL_BUTTON_CLASS}>
+                Cancel
+              </button>
+              <button type="button" onClick={saveNote} className={SMALL_BUTTON_CLASS}>
+                Save note
+              </button>
+            </div>
+          </div>
+        ) : tip.note ? (
+          <div className="flex items-start gap-2">
+            <p className="flex-1 text-xs font-body italic text-stardew-brown-600 whitespace-pre-wrap">{tip.note}</p>
+            <button type="button" onClick={() => setNoteDraft(tip.note ?? '')} className={SMALL_BUTTON_CLASS}>
+              Edit note
+            </button>
+          </div>
+        ) : (
+          <button type="button" onClick={() => setNoteDraft('')} className={SMALL_BUTTON_CLASS}>
+            + Add note
+          </button>
+        )}
+      </div>
+
+      <div className="mt-2 text-[11px] font-body text-stardew-brown-400">Saved {formatSavedTimestamp(tip.savedAt)}</div>
+    </li>
+  );
+};
+
+const formatSavedTimestamp = (iso?: string | null) => {
+  if (!iso) return '';
+  const parsed = new Date(iso);
+  if (Number.isNaN(parsed.getTime())) return '';
+  return parsed.toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
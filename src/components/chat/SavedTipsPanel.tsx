@@ -1,91 +1,284 @@
-import type { SavedTip } from '../../types/tips';
+import { useMemo, useState } from 'react';
+import { SavedTipCard, type SavedTipChanges } from '@/components/chat/SavedTipCard';
+import { TIP_SORT_OPTIONS, type TipSortOrder } from '../../constants/tips';
+import { countTipTags, filterSavedTips } from '../../lib/saved-tips';
+import type { SavedTip, TipExportFormat, TipImportStrategy, TipStorageIssue } from '../../types/tips';
+
+export interface TipTransferStatus {
+  tone: 'success' | 'error';
+  message: string;
+}
+
+/** A parsed export file waiting for the player to pick merge or replace. */
+export interface PendingTipImport {
+  fileName: string;
+  tips: SavedTip[];
+  /** Entries in the file that were not valid tips. */
+  skipped: number;
+  /** Tips in the file whose content is already saved. */
+  duplicates: number;
+}
+
+const STORAGE_ISSUE_COPY: Record<TipStorageIssue, string> = {
+  full: "Your browser's storage is full, so recent changes to saved tips weren't saved. Export your tips, then remove some to free up space.",
+  unavailable:
+    "This browser isn't letting Stardew Sage store data (private browsing can do this), so saved tips will be lost when you close the tab. Export them to keep a copy.",
+};
 
 interface SavedTipsPanelProps {
   isOpen: boolean;
   savedTips: SavedTip[];
+  storageIssue: TipStorageIssue | null;
+  pendingImport: PendingTipImport | null;
+  transferStatus: TipTransferStatus | null;
   onToggle: () => void;
   onClear: () => void;
   onRemove: (tipId: string) => void;
+  onUpdate: (tipId: string, changes: SavedTipChanges) => void;
+  onExport: (format: TipExportFormat) => void;
+  onImportFile: (file: File) => void;
+  onConfirmImport: (strategy: TipImportStrategy) => void;
+  onCancelImport: () => void;
 }
 
+const TRANSFER_BUTTON_CLASS =
+  'inline-flex items-center rounded-stardew border-2 border-menu-border bg-white/90 px-2.5 py-1 font-pixel text-[11px] sm:text-xs text-stardew-brown-700 hover:bg-stardew-green-50 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 disabled:cursor-not-allowed disabled:opacity-50';
+
+const pluralizeTips = (count: number) => `${count} ${count === 1 ? 'tip' : 'tips'}`;
+
+const TipTransferControl = ({
+  savedTips,
+  pendingImport,
+  transferStatus,
+  onExport,
+  onImportFile,
+  onConfirmImport,
+  onCancelImport,
+}: Pick<
+  SavedTipsPanelProps,
+  'savedTips' | 'pendingImport' | 'transferStatus' | 'onExport' | 'onImportFile' | 'onConfirmImport' | 'onCancelImport'
+>) => {
+  const newTipCount = pendingImport ? pendingImport.tips.length - pendingImport.duplicates : 0;
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onExport('json')}
+          disabled={savedTips.length === 0}
+          className={TRANSFER_BUTTON_CLASS}
+        >
+          Export JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => onExport('markdown')}
+          disabled={savedTips.length === 0}
+          className={TRANSFER_BUTTON_CLASS}
+        >
+          Export Markdown
+        </button>
+        <label className={`${TRANSFER_BUTTON_CLASS} cursor-pointer focus-within:ring-2 focus-within:ring-stardew-blue-400`}>
+          Import JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="sr-only"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = '';
+              if (file) onImportFile(file);
+            }}
+          />
+        </label>
+      </div>
+
+      {pendingImport && (
+        <div className="rounded-stardew border border-stardew-gold-300 bg-stardew-gold-50 p-2.5 space-y-2" role="group" aria-label="Import saved tips">
+          <p className="text-xs font-body text-stardew-brown-700">
+            <span className="font-semibold">{pendingImport.fileName}</span> has {pluralizeTips(pendingImport.tips.length)}
+            {pendingImport.duplicates > 0 && `, ${pendingImport.duplicates} already saved`}
+            {pendingImport.skipped > 0 && `. ${pendingImport.skipped} unreadable ${pendingImport.skipped === 1 ? 'entry was' : 'entries were'} skipped`}
+            .
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => onConfirmImport('merge')} className={TRANSFER_BUTTON_CLASS}>
+              Merge: add {pluralizeTips(newTipCount)}
+            </button>
+            <button
+              type="button"
+              onClick={() => onConfirmImport('replace')}
+              className={`${TRANSFER_BUTTON_CLASS} text-stardew-red-600`}
+            >
+              Replace all saved tips
+            </button>
+            <button type="button" onClick={onCancelImport} className={TRANSFER_BUTTON_CLASS}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {transferStatus && (
+        <p
+          className={`text-xs font-body ${transferStatus.tone === 'error' ? 'text-stardew-red-600' : 'text-stardew-green-700'}`}
+          role={transferStatus.tone === 'error' ? 'alert' : 'status'}
+        >
+          {transferStatus.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
 export const SavedTipsPanel = ({
   isOpen,
   savedTips,
+  storageIssue,
+  pendingImport,
+  transferStatus,
   onToggle,
   onClear,
   onRemove,
-}: SavedTipsPanelProps) => (
-  <section className="mb-4 sm:mb-6">
-    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-2">
-      <div className="flex items-center gap-2">
-        {savedTips.length > 0 && (
+  onUpdate,
+  onExport,
+  onImportFile,
+  onConfirmImport,
+  onCancelImport,
+}: SavedTipsPanelProps) => {
+  const [query, setQuery] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [sort, setSort] = useState<TipSortOrder>('newest');
+
+  const tagCounts = useMemo(() => countTipTags(savedTips), [savedTips]);
+  // Tags removed from every tip drop out of the filter instead of hiding everything.
+  const activeTags = useMemo(
+    () => selectedTags.filter((tag) => tagCounts.some(([used]) => used === tag)),
+    [selectedTags, tagCounts],
+  );
+  const visibleTips = useMemo(
+    () => filterSavedTips(savedTips, { query, tags: activeTags, sort }),
+    [savedTips, query, activeTags, sort],
+  );
+
+  const toggleTagFilter = (tag: string) => {
+    setSelectedTags((prev) => (prev.includes(tag) ? prev.filter((entry) => entry !== tag) : [...prev, tag]));
+  };
+
+  return (
+    <section className="mb-4 sm:mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-2">
+        <div className="flex items-center gap-2">
+          {savedTips.length > 0 && (
+            <button
+              type="button"
+              onClick={onClear}
+              className="text-xs sm:text-sm font-pixel tracking-pixel text-stardew-red-500 hover:text-stardew-red-600 focus:outline-none focus:ring-2 focus:ring-stardew-red-300 focus:ring-offset-1 focus:ring-offset-menu-paper"
+            >
+              Clear all
+            </button>
+          )}
           <button
             type="button"
-            onClick={onClear}
-            className="text-xs sm:text-sm font-pixel tracking-pixel text-stardew-red-500 hover:text-stardew-red-600 focus:outline-none focus:ring-2 focus:ring-stardew-red-300 focus:ring-offset-1 focus:ring-offset-menu-paper"
+            onClick={onToggle}
+            className={`inline-flex items-center justify-center gap-1 rounded-stardew-lg border-2 border-menu-border px-3 py-1.5 font-pixel text-xs sm:text-sm transition-colors ${isOpen ? 'bg-stardew-green-100 text-stardew-green-700' : 'bg-menu-paper hover:bg-stardew-green-50 text-stardew-brown-700'}`}
+            aria-expanded={isOpen}
+            aria-controls="saved-tips-panel"
           >
-            Clear all
+            {isOpen ? 'Hide saved tips' : 'Show saved tips'}
+            <span className="text-[10px] sm:text-xs font-body text-stardew-brown-500">({savedTips.length})</span>
           </button>
-        )}
-        <button
-          type="button"
-          onClick={onToggle}
-          className={`inline-flex items-center justify-center gap-1 rounded-stardew-lg border-2 border-menu-border px-3 py-1.5 font-pixel text-xs sm:text-sm transition-colors ${isOpen ? 'bg-stardew-green-100 text-stardew-green-700' : 'bg-menu-paper hover:bg-stardew-green-50 text-stardew-brown-700'}`}
-          aria-expanded={isOpen}
-          aria-controls="saved-tips-panel"
-        >
-          {isOpen ? 'Hide saved tips' : 'Show saved tips'}
-          <span className="text-[10px] sm:text-xs font-body text-stardew-brown-500">({savedTips.length})</span>
-        </button>
+        </div>
       </div>
-    </div>
 
-    {isOpen && (
-      <div
-        id="saved-tips-panel"
-        className="mt-3 rounded-stardew-lg border-2 border-menu-border bg-menu-paper p-3 sm:p-4 shadow-stardew-sm"
-        role="region"
-        aria-label="Saved tips list"
-      >
-        {savedTips.length === 0 ? (
-          <p className="text-sm font-body text-stardew-brown-500">
-            No tips saved yet. Tap the star icon on helpful responses to bookmark them.
-          </p>
-        ) : (
-          <ul className="space-y-3 max-h-60 overflow-y-auto pr-1">
-            {savedTips.map((tip) => (
-              <li key={tip.id} className="rounded-stardew border border-menu-border bg-white/90 p-3">
-                <div className="flex items-start justify-between gap-3">
-                  <div className="text-sm font-body text-stardew-brown-700 whitespace-pre-wrap">{tip.content}</div>
-                  <button
-                    type="button"
-                    onClick={() => onRemove(tip.id)}
-                    className="shrink-0 rounded-stardew border-2 border-stardew-brown-200 bg-stardew-brown-50 px-3 py-1.5 text-[11px] sm:text-xs font-pixel uppercase tracking-pixel text-stardew-brown-600 hover:bg-stardew-brown-100 focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 focus:ring-offset-1 focus:ring-offset-white"
-                    aria-label="Remove saved tip"
-                  >
-                    Remove
-                  </button>
-                </div>
-                <div className="mt-2 text-[11px] font-body text-stardew-brown-400">
-                  Saved {formatSavedTimestamp(tip.savedAt)}
+      {storageIssue && (
+        <p
+          className="mt-2 rounded-stardew border-2 border-stardew-red-200 bg-stardew-red-50 px-3 py-2 text-xs sm:text-sm font-body text-stardew-red-700"
+          role="alert"
+        >
+          {STORAGE_ISSUE_COPY[storageIssue]}
+        </p>
+      )}
+
+      {isOpen && (
+        <div
+          id="saved-tips-panel"
+          className="mt-3 rounded-stardew-lg border-2 border-menu-border bg-menu-paper p-3 sm:p-4 shadow-stardew-sm"
+          role="region"
+          aria-label="Saved tips list"
+        >
+          <TipTransferControl
+            savedTips={savedTips}
+            pendingImport={pendingImport}
+            transferStatus={transferStatus}
+            onExport={onExport}
+            onImportFile={onImportFile}
+            onConfirmImport={onConfirmImport}
+            onCancelImport={onCancelImport}
+          />
+
+          {savedTips.length === 0 ? (
+            <p className="text-sm font-body text-stardew-brown-500">
+              No tips saved yet. Tap the star icon on helpful responses to bookmark them.
+            </p>
+          ) : (
+            <>
+              <div className="mb-3 flex flex-col sm:flex-row gap-2">
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(event) => setQuery(event.target.value)}
+                  placeholder="Search tips, questions and notes"
+                  className="flex-1 rounded-stardew border-2 border-menu-border bg-white px-3 py-1.5 text-sm font-body text-stardew-brown-700 focus:outline-none focus:border-stardew-green-400"
+                  aria-label="Search saved tips"
+                />
+                <select
+                  value={sort}
+                  onChange={(event) => setSort(event.target.value as TipSortOrder)}
+                  className="rounded-stardew border-2 border-menu-border bg-white px-2 py-1.5 text-sm font-body text-stardew-brown-700 focus:outline-none focus:border-stardew-green-400"
+                  aria-label="Sort saved tips"
+                >
+                  {TIP_SORT_OPTIONS.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {tagCounts.length > 0 && (
+                <div className="mb-3 flex flex-wrap gap-1.5" role="group" aria-label="Filter by tag">
+                  {tagCounts.map(([tag, count]) => {
+                    const isSelected = activeTags.includes(tag);
+                    return (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => toggleTagFilter(tag)}
+                        className={`rounded-full border px-2 py-0.5 text-[11px] font-body transition-colors focus:outline-none focus:ring-2 focus:ring-stardew-blue-400 ${isSelected ? 'bg-stardew-green-100 border-stardew-green-400 text-stardew-green-700' : 'bg-white/80 border-menu-border text-stardew-brown-600 hover:bg-white'}`}
+                        aria-pressed={isSelected}
+                      >
+                        {tag} <span className="text-stardew-brown-400">{count}</span>
+                      </button>
+                    );
+                  })}
                 </div>
-              </li>
-            ))}
-          </ul>
-        )}
-      </div>
-    )}
-  </section>
-);
-
-const formatSavedTimestamp = (iso?: string | null) => {
-  if (!iso) return '';
-  const parsed = new Date(iso);
-  if (Number.isNaN(parsed.getTime())) return '';
-  return parsed.toLocaleString([], {
-    month: 'short',
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-  });
+              )}
+
+              {visibleTips.length === 0 ? (
+                <p className="text-sm font-body text-stardew-brown-500">No saved tips match your search.</p>
+              ) : (
+                <ul className="space-y-3 max-h-80 overflow-y-auto pr-1">
+                  {visibleTips.map((tip) => (
+                    <SavedTipCard key={tip.id} tip={tip} onRemove={onRemove} onUpdate={onUpdate} />
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
 };
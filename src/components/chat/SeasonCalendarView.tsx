@@ -0,0 +1,70 @@
+import {
+  CALENDAR_EVENT_TYPE_LABELS,
+  CALENDAR_WEEKDAYS,
+  formatCalendarTitle,
+  groupEventsByDay,
+} from '../../lib/calendar';
+import type { CalendarEventType, SeasonCalendar } from '../../types/calendar';
+
+interface SeasonCalendarViewProps {
+  calendar: SeasonCalendar;
+}
+
+const EVENT_DOT_CLASS: Record<CalendarEventType, string> = {
+  birthday: 'bg-stardew-red-400',
+  festival: 'bg-stardew-blue-400',
+  planting: 'bg-stardew-brown-400',
+  harvest: 'bg-stardew-green-500',
+};
+
+export const SeasonCalendarView = ({ calendar }: SeasonCalendarViewProps) => {
+  const title = formatCalendarTitle(calendar);
+  const days = groupEventsByDay(calendar.events);
+  const eventTypes = (Object.keys(CALENDAR_EVENT_TYPE_LABELS) as CalendarEventType[]).filter((type) =>
+    calendar.events.some((event) => event.type === type),
+  );
+
+  return (
+    <figure className="rounded-stardew border border-menu-border bg-white/80 p-2" aria-label={`${title} calendar`}>
+      <figcaption className="mb-1.5 font-pixel text-xs tracking-pixel text-stardew-brown-700">{title}</figcaption>
+
+      <div className="grid grid-cols-7 gap-0.5 text-center text-[10px] font-body text-stardew-brown-400" aria-hidden="true">
+        {CALENDAR_WEEKDAYS.map((weekday) => (
+          <span key={weekday}>{weekday}</span>
+        ))}
+      </div>
+      <ol className="grid grid-cols-7 gap-0.5">
+        {days.map((events, index) => {
+          const day = index + 1;
+          const labels = events.map((event) => event.label).join(', ');
+          return (
+            <li
+              key={day}
+              className={`flex h-8 sm:h-10 flex-col items-center justify-between rounded-stardew-sm border py-0.5 text-[10px] font-body ${events.length > 0 ? 'border-stardew-gold-300 bg-stardew-gold-50 text-stardew-brown-800' : 'border-menu-border/60 text-stardew-brown-400'}`}
+              title={labels || undefined}
+              aria-label={labels ? `Day ${day}: ${labels}` : `Day ${day}`}
+            >
+              <span>{day}</span>
+              <span className="flex gap-0.5" aria-hidden="true">
+                {events.map((event) => (
+                  <span key={`${event.type}-${event.label}`} className={`h-1.5 w-1.5 rounded-full ${EVENT_DOT_CLASS[event.type]}`} />
+                ))}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+
+      {eventTypes.length > 0 && (
+        <div className="mt-1.5 flex flex-wrap gap-x-3 gap-y-0.5 text-[10px] font-body text-stardew-brown-500" aria-hidden="true">
+          {eventTypes.map((type) => (
+            <span key={type} className="inline-flex items-center gap-1">
+              <span className={`h-1.5 w-1.5 rounded-full ${EVENT_DOT_CLASS[type]}`} />
+              {CALENDAR_EVENT_TYPE_LABELS[type]}
+            </span>
+          ))}
+        </div>
+      )}
+    </figure>
+  );
+};
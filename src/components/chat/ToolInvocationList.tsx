@@ -0,0 +1,19 @@
+import type { ToolInvocation } from '../../types/tools';
+
+interface ToolInvocationListProps {
+  invocations: ToolInvocation[];
+}
+
+export const ToolInvocationList = ({ invocations }: ToolInvocationListProps) => (
+  <ul className="mb-2 space-y-1" aria-label="Calculators used">
+    {invocations.map((invocation) => (
+      <li
+        key={invocation.id}
+        className={`flex items-baseline gap-1.5 rounded-stardew-sm border px-1.5 py-0.5 text-xs font-body ${invocation.isError ? 'border-stardew-red-300 bg-stardew-red-100 text-stardew-red-600' : 'border-menu-border bg-white/70 text-stardew-brown-600'}`}
+      >
+        <span className="shrink-0 font-pixel text-[10px] tracking-pixel text-stardew-brown-500">{invocation.label}</span>
+        <span className="min-w-0 break-words">{invocation.summary}</span>
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,59 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ChatMessage } from '@/components/chat/ChatMessage';
+import { usePrefersReducedMotion } from '../../hooks/usePrefersReducedMotion';
+import { copyTextToClipboard } from '../../lib/clipboard';
+import { reviveMessages } from '../../lib/conversations';
+import type { StoredChatMessage } from '../../types/conversations';
+
+interface SharedConversationViewProps {
+  messages: StoredChatMessage[];
+}
+
+/**
+ * The messages of a shared conversation, drawn with the chat's own bubbles.
+ * Only copying is offered; everything that would change the chat is left out.
+ */
+export const SharedConversationView = ({ messages }: SharedConversationViewProps) => {
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
+  const copyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const revivedMessages = useMemo(() => reviveMessages(messages), [messages]);
+
+  useEffect(
+    () => () => {
+      if (copyTimeoutRef.current) {
+        clearTimeout(copyTimeoutRef.current);
+      }
+    },
+    [],
+  );
+
+  const handleCopyMessage = useCallback(async (messageKey: string, content: string) => {
+    const copied = await copyTextToClipboard(content.trim());
+    if (!copied) return;
+
+    if (copyTimeoutRef.current) {
+      clearTimeout(copyTimeoutRef.current);
+    }
+    setCopiedMessageId(messageKey);
+    copyTimeoutRef.current = setTimeout(() => setCopiedMessageId(null), 2000);
+  }, []);
+
+  return (
+    <div className="space-y-3 sm:space-y-4" role="log" aria-label="Shared conversation">
+      {revivedMessages.map((message, index) => (
+        <ChatMessage
+          key={`shared-${index}`}
+          message={message}
+          messageKey={`shared-${index}`}
+          prefersReducedMotion={prefersReducedMotion}
+          copiedMessageId={copiedMessageId}
+          isActionDisabled={false}
+          onCopyMessage={handleCopyMessage}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+/** Longest question the chat accepts; the route rejects anything longer with `INVALID_INPUT`. */
+export const MAX_MESSAGE_LENGTH = 1000;
+
+/**
+ * Most history entries the client sends and the route reads. Older entries are
+ * ignored rather than rejected, so long conversations keep working.
+ */
+export const MAX_HISTORY_ENTRIES = 60;
+
+export const REFUSAL_REASONS = ['injection', 'off-topic', 'prompt-leak'] as const;
+
+export type RefusalReason = typeof REFUSAL_REASONS[number];
+
+export const ANSWER_MODES = [
+  { id: 'quick', label: 'Quick answer', description: 'A short, direct reply' },
+  { id: 'detailed', label: 'Detailed guide', description: 'A longer walkthrough with sections' },
+  { id: 'checklist', label: 'Step-by-step checklist', description: 'Numbered steps to follow in order' },
+] as const;
+
+export type AnswerMode = typeof ANSWER_MODES[number]['id'];
+
+export const DEFAULT_ANSWER_MODE: AnswerMode = 'quick';
+
+export const TRANSCRIPT_EXPORT_FORMATS = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'html', label: 'Print view (HTML)', extension: 'html', mimeType: 'text/html' },
+] as const;
+
+export type TranscriptExportFormat = typeof TRANSCRIPT_EXPORT_FORMATS[number]['id'];
+
+/** How long a shared conversation link stays readable before the snapshot is deleted. */
+export const SHARE_LINK_TTL_DAYS = 30;
@@ -0,0 +1,96 @@
+export const SEASONS = ['spring', 'summer', 'fall', 'winter'] as const;
+
+export type Season = typeof SEASONS[number];
+
+export const DAYS_PER_SEASON = 28;
+export const MAX_YEAR = 99;
+export const MAX_SKILL_LEVEL = 10;
+
+/** Limits for the fields only a save-file import fills in. */
+export const MAX_MONEY = 1_000_000_000;
+export const MAX_FRIENDSHIPS = 60;
+export const MAX_VILLAGER_NAME_LENGTH = 40;
+export const MAX_HEARTS = 14;
+export const MUSEUM_ITEM_COUNT = 95;
+export const MAX_SHIPPED_ITEMS = 1000;
+
+export const FARM_TYPES = [
+  { id: 'standard', label: 'Standard' },
+  { id: 'riverland', label: 'Riverland' },
+  { id: 'forest', label: 'Forest' },
+  { id: 'hilltop', label: 'Hill-top' },
+  { id: 'wilderness', label: 'Wilderness' },
+  { id: 'four-corners', label: 'Four Corners' },
+  { id: 'beach', label: 'Beach' },
+  { id: 'meadowlands', label: 'Meadowlands' },
+] as const;
+
+export type FarmType = typeof FARM_TYPES[number]['id'];
+
+export const FARM_AREAS = [
+  { id: 'greenhouse', label: 'Greenhouse' },
+  { id: 'bus-stop', label: 'Bus to the Desert' },
+  { id: 'skull-cavern', label: 'Skull Cavern' },
+  { id: 'secret-woods', label: 'Secret Woods' },
+  { id: 'sewers', label: 'Sewers' },
+  { id: 'railroad', label: 'Railroad' },
+  { id: 'quarry', label: 'Quarry' },
+  { id: 'ginger-island', label: 'Ginger Island' },
+] as const;
+
+export type FarmArea = typeof FARM_AREAS[number]['id'];
+
+export const SKILLS = ['farming', 'mining', 'foraging', 'fishing', 'combat'] as const;
+
+export type SkillName = typeof SKILLS[number];
+
+/** Standard (non-remixed) Community Center bundles by room. */
+export const COMMUNITY_CENTER_BUNDLES = [
+  {
+    room: 'Crafts Room',
+    bundles: [
+      'Spring Foraging Bundle',
+      'Summer Foraging Bundle',
+      'Fall Foraging Bundle',
+      'Winter Foraging Bundle',
+      'Construction Bundle',
+      'Exotic Foraging Bundle',
+    ],
+  },
+  {
+    room: 'Pantry',
+    bundles: [
+      'Spring Crops Bundle',
+      'Summer Crops Bundle',
+      'Fall Crops Bundle',
+      'Quality Crops Bundle',
+      'Animal Bundle',
+      'Artisan Bundle',
+    ],
+  },
+  {
+    room: 'Fish Tank',
+    bundles: [
+      'River Fish Bundle',
+      'Lake Fish Bundle',
+      'Ocean Fish Bundle',
+      'Night Fishing Bundle',
+      'Crab Pot Bundle',
+      'Specialty Fish Bundle',
+    ],
+  },
+  {
+    room: 'Boiler Room',
+    bundles: ["Blacksmith's Bundle", "Geologist's Bundle", "Adventurer's Bundle"],
+  },
+  {
+    room: 'Bulletin Board',
+    bundles: ["Chef's Bundle", 'Dye Bundle', 'Field Research Bundle', 'Fodder Bundle', "Enchanter's Bundle"],
+  },
+  {
+    room: 'Vault',
+    bundles: ['2,500g Bundle', '5,000g Bundle', '10,000g Bundle', '25,000g Bundle'],
+  },
+] as const;
+
+export type CommunityCenterBundle = typeof COMMUNITY_CENTER_BUNDLES[number]['bundles'][number];
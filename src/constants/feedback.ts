@@ -0,0 +1,11 @@
+export const FEEDBACK_RATINGS = ['up', 'down'] as const;
+
+export type FeedbackRating = typeof FEEDBACK_RATINGS[number];
+
+export const FEEDBACK_REASONS = [
+  { id: 'incorrect', label: 'Incorrect' },
+  { id: 'outdated', label: 'Outdated for 1.6' },
+  { id: 'off-topic', label: 'Off-topic' },
+] as const;
+
+export type FeedbackReason = typeof FEEDBACK_REASONS[number]['id'];
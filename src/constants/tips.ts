@@ -0,0 +1,34 @@
+export const MAX_TIP_TAGS = 8;
+export const MAX_TAG_LENGTH = 24;
+export const MAX_TIP_NOTE_LENGTH = 500;
+/** Removals older than this are forgotten; a tab left closed for longer may bring a removed tip back. */
+export const TIP_TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Activity tags suggested when a tip mentions any of their keywords. */
+export const ACTIVITY_TAG_KEYWORDS = {
+  farming: ['crop', 'crops', 'seed', 'seeds', 'harvest', 'fertilizer', 'sprinkler', 'sprinklers', 'greenhouse'],
+  fishing: ['fish', 'fishing', 'rod', 'bait', 'tackle', 'crab pot'],
+  mining: ['mine', 'mines', 'ore', 'geode', 'geodes', 'skull cavern', 'pickaxe'],
+  foraging: ['forage', 'foraging', 'berries', 'mushroom', 'mushrooms', 'tapper'],
+  combat: ['monster', 'monsters', 'sword', 'slime', 'slimes', 'weapon'],
+  friendship: ['gift', 'gifts', 'heart', 'hearts', 'friendship', 'marry', 'marriage', 'dating', 'birthday'],
+  money: ['gold', 'profit', 'profitable', 'sell', 'price', 'money'],
+  'community-center': ['bundle', 'bundles', 'community center', 'junimo', 'junimos'],
+  cooking: ['recipe', 'recipes', 'cook', 'cooking', 'dish'],
+  crafting: ['craft', 'crafting', 'keg', 'kegs', 'preserves jar', 'artisan'],
+  festivals: ['festival', 'festivals', 'fair', 'luau'],
+} as const;
+
+export const TIP_SORT_OPTIONS = [
+  { id: 'newest', label: 'Newest first' },
+  { id: 'oldest', label: 'Oldest first' },
+  { id: 'alphabetical', label: 'A to Z' },
+] as const;
+
+export type TipSortOrder = typeof TIP_SORT_OPTIONS[number]['id'];
+
+/** Identifies saved-tips export files; bump the version when the file shape changes. */
+export const TIPS_EXPORT_SCHEMA = 'stardew-sage/saved-tips';
+export const TIPS_EXPORT_VERSION = 1;
+/** Thousands of tips fit in a few hundred kilobytes, so anything bigger is the wrong file. */
+export const MAX_TIPS_IMPORT_BYTES = 5 * 1024 * 1024;
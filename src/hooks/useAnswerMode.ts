@@ -0,0 +1,35 @@
+import { useEffect, useRef, useState } from 'react';
+import { DEFAULT_ANSWER_MODE, type AnswerMode } from '../constants/chat';
+import { isAnswerMode } from '../lib/answer-modes';
+
+const STORAGE_KEY = 'stardew-sage-answer-mode';
+
+export const useAnswerMode = () => {
+  const [mode, setMode] = useState<AnswerMode>(DEFAULT_ANSWER_MODE);
+  const isInitialLoadRef = useRef(true);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isAnswerMode(stored)) {
+        setMode(stored);
+      }
+    } catch (error) {
+      console.error('Failed to load answer mode from storage', error);
+    } finally {
+      isInitialLoadRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isInitialLoadRef.current) return;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, mode);
+    } catch (error) {
+      console.error('Failed to persist answer mode', error);
+    }
+  }, [mode]);
+
+  return { mode, setMode } as const;
+};
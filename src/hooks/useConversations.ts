@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  areMessagesEqual,
+  buildConversationTitle,
+  reviveConversation,
+  serializeConversation,
+  UNTITLED_CONVERSATION,
+} from '../lib/conversations';
+import type { ChatMessage } from '../types/chat';
+import type { Conversation } from '../types/conversations';
+
+const STORAGE_KEY = 'stardew-sage-conversations';
+const ACTIVE_STORAGE_KEY = 'stardew-sage-active-conversation';
+
+const sortByUpdatedAt = (conversations: Conversation[]) =>
+  [...conversations].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const useConversations = () => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const isInitialLoadRef = useRef(true);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        const revived = parsed
+          .map(reviveConversation)
+          .filter((conversation): conversation is Conversation => conversation !== null);
+        setConversations(sortByUpdatedAt(revived));
+
+        const activeId = localStorage.getItem(ACTIVE_STORAGE_KEY);
+        if (activeId && revived.some((conversation) => conversation.id === activeId)) {
+          setActiveConversationId(activeId);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load conversations from storage', error);
+    } finally {
+      isInitialLoadRef.current = false;
+      setHasLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isInitialLoadRef.current) return;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(conversations.map(serializeConversation)));
+      if (activeConversationId) {
+        localStorage.setItem(ACTIVE_STORAGE_KEY, activeConversationId);
+      } else {
+        localStorage.removeItem(ACTIVE_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Failed to persist conversations', error);
+    }
+  }, [activeConversationId, conversations]);
+
+  const activeConversation = useMemo(
+    () => conversations.find((conversation) => conversation.id === activeConversationId) ?? null,
+    [activeConversationId, conversations],
+  );
+
+  /**
+   * Creates or updates a conversation with the given messages and makes it active.
+   * Unchanged messages are ignored so switching chats does not bump `updatedAt`.
+   */
+  const saveConversation = useCallback((id: string, messages: ChatMessage[]) => {
+    setConversations((prev) => {
+      const existing = prev.find((conversation) => conversation.id === id);
+      if (existing && areMessagesEqual(existing.messages, messages)) return prev;
+
+      const now = new Date().toISOString();
+      const next: Conversation = existing
+        ? {
+            ...existing,
+            messages,
+            title: existing.title === UNTITLED_CONVERSATION ? buildConversationTitle(messages) : existing.title,
+            updatedAt: now,
+          }
+        : { id, title: buildConversationTitle(messages), messages, createdAt: now, updatedAt: now };
+
+      return [next, ...prev.filter((conversation) => conversation.id !== id)];
+    });
+    setActiveConversationId(id);
+  }, []);
+
+  const selectConversation = useCallback((id: string | null) => {
+    setActiveConversationId(id);
+  }, []);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    const trimmed = title.replace(/\s+/g, ' ').trim();
+    if (!trimmed) return;
+    setConversations((prev) =>
+      prev.map((conversation) => (conversation.id === id ? { ...conversation, title: trimmed } : conversation)),
+    );
+  }, []);
+
+  const deleteConversation = useCallback((id: string) => {
+    setConversations((prev) => prev.filter((conversation) => conversation.id !== id));
+    setActiveConversationId((current) => (current === id ? null : current));
+  }, []);
+
+  return {
+    conversations,
+    activeConversation,
+    activeConversationId,
+    hasLoaded,
+    saveConversation,
+    selectConversation,
+    renameConversation,
+    deleteConversation,
+  } as const;
+};
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+
+const getSecondsLeft = (targetMs: number | null) =>
+  targetMs === null ? 0 : Math.max(0, Math.ceil((targetMs - Date.now()) / 1000));
+
+export const formatCountdown = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const paddedSeconds = seconds.toString().padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${paddedSeconds}`;
+  }
+  return `${minutes}:${paddedSeconds}`;
+};
+
+/** Whole seconds until `targetMs` (epoch ms), ticking once per second down to 0. */
+export const useCountdown = (targetMs: number | null) => {
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsLeft(targetMs));
+
+  useEffect(() => {
+    setSecondsLeft(getSecondsLeft(targetMs));
+    if (targetMs === null) return;
+
+    const intervalId = setInterval(() => {
+      const next = getSecondsLeft(targetMs);
+      setSecondsLeft(next);
+      if (next === 0) clearInterval(intervalId);
+    }, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [targetMs]);
+
+  return secondsLeft;
+};
@@ -0,0 +1,26 @@
+import { useEffect, type RefObject } from 'react';
+
+/** Closes a popover when the player clicks outside `containerRef` or presses Escape. */
+export const useDismissOnOutsideClick = (
+  containerRef: RefObject<HTMLElement | null>,
+  isOpen: boolean,
+  onDismiss: () => void,
+) => {
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) onDismiss();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onDismiss();
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [containerRef, isOpen, onDismiss]);
+};
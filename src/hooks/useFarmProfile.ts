@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DEFAULT_FARM_PROFILE, parseFarmProfile } from '../lib/farm-profile';
+import type { FarmProfile } from '../types/farm';
+
+const STORAGE_KEY = 'stardew-sage-farm-profile';
+
+export const useFarmProfile = () => {
+  const [profile, setProfile] = useState<FarmProfile | null>(null);
+  const isInitialLoadRef = useRef(true);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+
+      const parsed = parseFarmProfile(JSON.parse(stored));
+      if (parsed) {
+        setProfile(parsed);
+      }
+    } catch (error) {
+      console.error('Failed to load farm profile from storage', error);
+    } finally {
+      isInitialLoadRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isInitialLoadRef.current) return;
+
+    try {
+      if (profile) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Failed to persist farm profile', error);
+    }
+  }, [profile]);
+
+  const updateProfile = useCallback((changes: Partial<FarmProfile>) => {
+    setProfile((prev) => ({ ...(prev ?? DEFAULT_FARM_PROFILE), ...changes }));
+  }, []);
+
+  const clearProfile = useCallback(() => {
+    setProfile(null);
+  }, []);
+
+  return {
+    profile,
+    updateProfile,
+    clearProfile,
+  } as const;
+};
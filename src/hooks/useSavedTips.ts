@@ -1,23 +1,78 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { SavedTip } from '../types/tips';
+import { MAX_TIP_NOTE_LENGTH } from '../constants/tips';
+import {
+  mergeSavedTipSnapshots,
+  reviveSavedTip,
+  reviveSavedTips,
+  reviveTipTombstones,
+  sanitizeTags,
+} from '../lib/saved-tips';
+import { mergeImportedTips } from '../lib/tips-transfer';
+import type { SavedTip, SavedTipsSnapshot, TipImportStrategy, TipStorageIssue } from '../types/tips';
 
 const STORAGE_KEY = 'stardew-sage-saved-tips';
+const REMOVED_STORAGE_KEY = 'stardew-sage-saved-tips-removed';
 
+const EMPTY_SNAPSHOT: SavedTipsSnapshot = { tips: [], removed: {} };
+
+const parseStoredJson = (key: string): unknown => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    // A damaged value is replaced on the next write rather than blocking every save.
+    console.error(`Ignoring unreadable ${key} in storage`, error);
+    return null;
+  }
+};
+
+// Tips saved before tags, notes and pinning existed are upgraded as they load.
+const readStoredSnapshot = (): SavedTipsSnapshot => {
+  const tips = parseStoredJson(STORAGE_KEY);
+  return {
+    tips: Array.isArray(tips) ? reviveSavedTips(tips) : [],
+    removed: reviveTipTombstones(parseStoredJson(REMOVED_STORAGE_KEY)),
+  };
+};
+
+const writeIfChanged = (key: string, value: string) => {
+  if (localStorage.getItem(key) !== value) localStorage.setItem(key, value);
+};
+
+const isSameSnapshot = (a: SavedTipsSnapshot, b: SavedTipsSnapshot) => JSON.stringify(a) === JSON.stringify(b);
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+
+const markRemoved = (snapshot: SavedTipsSnapshot, removedTips: SavedTip[]): SavedTipsSnapshot => {
+  if (removedTips.length === 0) return snapshot;
+  const removedAt = new Date().toISOString();
+  const ids = new Set(removedTips.map((tip) => tip.id));
+  return {
+    tips: snapshot.tips.filter((tip) => !ids.has(tip.id)),
+    removed: { ...snapshot.removed, ...Object.fromEntries([...ids].map((id) => [id, removedAt])) },
+  };
+};
+
+/**
+ * Saved tips backed by `localStorage` and kept in sync across tabs. Every
+ * write merges with what other tabs stored first, and removals are kept as
+ * tombstones so a tab that still has a tip doesn't bring it back.
+ */
 export const useSavedTips = () => {
-  const [savedTips, setSavedTips] = useState<SavedTip[]>([]);
+  const [snapshot, setSnapshot] = useState<SavedTipsSnapshot>(EMPTY_SNAPSHOT);
+  const [storageIssue, setStorageIssue] = useState<TipStorageIssue | null>(null);
   const isInitialLoadRef = useRef(true);
+  const savedTips = snapshot.tips;
 
   useEffect(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (!stored) return;
-
-      const parsed = JSON.parse(stored);
-      if (Array.isArray(parsed)) {
-        setSavedTips(parsed);
-      }
+      setSnapshot(mergeSavedTipSnapshots(readStoredSnapshot(), EMPTY_SNAPSHOT));
     } catch (error) {
       console.error('Failed to load saved tips from storage', error);
+      setStorageIssue('unavailable');
     } finally {
       isInitialLoadRef.current = false;
     }
@@ -27,11 +82,35 @@ export const useSavedTips = () => {
     if (isInitialLoadRef.current) return;
 
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(savedTips));
+      const merged = mergeSavedTipSnapshots(readStoredSnapshot(), snapshot);
+      writeIfChanged(STORAGE_KEY, JSON.stringify(merged.tips));
+      writeIfChanged(REMOVED_STORAGE_KEY, JSON.stringify(merged.removed));
+      setStorageIssue(null);
+      if (!isSameSnapshot(merged, snapshot)) setSnapshot(merged);
     } catch (error) {
       console.error('Failed to persist saved tips', error);
+      setStorageIssue(isQuotaError(error) ? 'full' : 'unavailable');
     }
-  }, [savedTips]);
+  }, [snapshot]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means another tab cleared all of storage.
+      if (event.key !== null && event.key !== STORAGE_KEY && event.key !== REMOVED_STORAGE_KEY) return;
+      try {
+        const stored = readStoredSnapshot();
+        setSnapshot((prev) => {
+          const merged = mergeSavedTipSnapshots(stored, prev);
+          return isSameSnapshot(merged, prev) ? prev : merged;
+        });
+      } catch (error) {
+        console.error('Failed to sync saved tips from another tab', error);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
 
   const isTipSaved = useCallback(
     (content: string) => savedTips.some((tip) => tip.content === content.trim()),
@@ -39,27 +118,70 @@ export const useSavedTips = () => {
   );
 
   const saveTip = useCallback((tip: SavedTip) => {
-    setSavedTips((prev) => [tip, ...prev.filter((existing) => existing.id !== tip.id)]);
+    // Reviving gives the tip the same shape as tips read back from storage, so tabs compare them equal.
+    const revived = reviveSavedTip({ ...tip, updatedAt: new Date().toISOString() });
+    if (!revived) return;
+    setSnapshot((prev) => ({
+      ...prev,
+      tips: [revived, ...prev.tips.filter((existing) => existing.id !== tip.id)],
+    }));
+  }, []);
+
+  const updateTip = useCallback((tipId: string, changes: Partial<Pick<SavedTip, 'tags' | 'note' | 'pinned'>>) => {
+    const updatedAt = new Date().toISOString();
+    setSnapshot((prev) => ({
+      ...prev,
+      tips: prev.tips.map((tip) => {
+        if (tip.id !== tipId) return tip;
+        const next = { ...tip, ...changes, updatedAt };
+        if (changes.tags) next.tags = sanitizeTags(changes.tags);
+        if ('note' in changes) next.note = changes.note?.trim() ? changes.note.slice(0, MAX_TIP_NOTE_LENGTH) : undefined;
+        return next;
+      }),
+    }));
   }, []);
 
   const removeTip = useCallback((tipId: string) => {
-    setSavedTips((prev) => prev.filter((tip) => tip.id !== tipId));
+    setSnapshot((prev) => markRemoved(prev, prev.tips.filter((tip) => tip.id === tipId)));
   }, []);
 
   const removeTipByContent = useCallback((content: string) => {
-    setSavedTips((prev) => prev.filter((tip) => tip.content !== content));
+    setSnapshot((prev) => markRemoved(prev, prev.tips.filter((tip) => tip.content === content)));
   }, []);
 
   const clearTips = useCallback(() => {
-    setSavedTips([]);
+    setSnapshot((prev) => markRemoved(prev, prev.tips));
   }, []);
 
+  const importTips = useCallback(
+    (tips: SavedTip[], strategy: TipImportStrategy) => {
+      const result = mergeImportedTips(savedTips, tips, strategy);
+      const updatedAt = new Date().toISOString();
+      const currentTips = new Set(savedTips);
+      const keptIds = new Set(result.tips.map((tip) => tip.id));
+
+      setSnapshot((prev) => {
+        // Imported tips count as new edits, so removals made before the import don't hide them.
+        const tipsWithImports = result.tips.map((tip) => (currentTips.has(tip) ? tip : { ...tip, updatedAt }));
+        return markRemoved(
+          { ...prev, tips: tipsWithImports },
+          prev.tips.filter((tip) => !keptIds.has(tip.id)),
+        );
+      });
+      return result.summary;
+    },
+    [savedTips],
+  );
+
   return {
     savedTips,
+    storageIssue,
     isTipSaved,
     saveTip,
+    updateTip,
     removeTip,
     removeTipByContent,
     clearTips,
+    importTips,
   } as const;
 };
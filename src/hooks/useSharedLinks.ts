@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SharedLink } from '../types/share';
+
+const STORAGE_KEY = 'stardew-sage-shared-links';
+
+const isSharedLink = (value: unknown): value is SharedLink => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, url, revokeToken, expiresAt, conversationId, title, createdAt } = value as Record<string, unknown>;
+  return (
+    typeof id === 'string' &&
+    typeof url === 'string' &&
+    typeof revokeToken === 'string' &&
+    typeof expiresAt === 'string' &&
+    (typeof conversationId === 'string' || conversationId === null) &&
+    typeof title === 'string' &&
+    typeof createdAt === 'string'
+  );
+};
+
+// Expired links are already gone from the server, so there is nothing left to copy or revoke.
+const dropExpired = (links: SharedLink[], now = Date.now()) =>
+  links.filter((link) => Date.parse(link.expiresAt) > now);
+
+/**
+ * Share links created in this browser, newest first. The revoke token is only
+ * ever returned once, so losing this list means the links can only expire.
+ */
+export const useSharedLinks = () => {
+  const [links, setLinks] = useState<SharedLink[]>([]);
+  const isInitialLoadRef = useRef(true);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+
+      const parsed: unknown = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        setLinks(dropExpired(parsed.filter(isSharedLink)));
+      }
+    } catch (error) {
+      console.error('Failed to load shared links from storage', error);
+    } finally {
+      isInitialLoadRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isInitialLoadRef.current) return;
+
+    try {
+      if (links.length > 0) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(links));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Failed to persist shared links', error);
+    }
+  }, [links]);
+
+  const addLink = useCallback((link: SharedLink) => {
+    setLinks((prev) => [link, ...dropExpired(prev).filter((existing) => existing.id !== link.id)]);
+  }, []);
+
+  const removeLink = useCallback((linkId: string) => {
+    setLinks((prev) => prev.filter((link) => link.id !== linkId));
+  }, []);
+
+  /** The newest link that still works for a conversation, if any. */
+  const getLatestLink = useCallback(
+    (conversationId: string | null) =>
+      conversationId === null
+        ? null
+        : (dropExpired(links).find((link) => link.conversationId === conversationId) ?? null),
+    [links],
+  );
+
+  return {
+    links,
+    addLink,
+    removeLink,
+    getLatestLink,
+  } as const;
+};
@@ -0,0 +1,80 @@
+import { getStore, type KeyValueStore } from './store';
+import type { GenerationConfig, LlmProvider, LlmToolDefinition } from './llm/types';
+import type { ChatResponseBody } from '../types/chat';
+
+/** Bump when the shape of `CachedAnswer` changes so old entries are ignored. */
+const ANSWER_CACHE_FORMAT = 3;
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export type CachedAnswer = Omit<ChatResponseBody, 'cached'> & {
+  /** ISO timestamp of when the answer was generated. */
+  cachedAt: string;
+};
+
+interface AnswerCacheKeyInput {
+  question: string;
+  systemPrompt: string;
+  provider: LlmProvider;
+  /** Per-request overrides, such as the answer mode's settings. */
+  generationConfig?: Partial<GenerationConfig>;
+  tools?: LlmToolDefinition[];
+}
+
+/**
+ * Seconds a cached answer stays valid, from `ANSWER_CACHE_TTL_SECONDS`.
+ * `0` disables the cache.
+ */
+export const getAnswerCacheTtlSeconds = () => {
+  const configured = Number.parseInt(process.env.ANSWER_CACHE_TTL_SECONDS ?? '', 10);
+  return Number.isNaN(configured) || configured < 0 ? DEFAULT_TTL_SECONDS : configured;
+};
+
+/** Case, whitespace, quote style and trailing punctuation don't change the answer. */
+export const normalizeQuestion = (question: string) =>
+  question
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.]+$/, '')
+    .trim();
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Key for a question's cached answer. The version segment hashes the system
+ * prompt, model, generation settings and tools, so changing any of them
+ * starts a fresh cache and old entries simply expire.
+ */
+export const getAnswerCacheKey = async ({ question, systemPrompt, provider, generationConfig, tools }: AnswerCacheKeyInput) => {
+  const version = await sha256(
+    JSON.stringify([
+      ANSWER_CACHE_FORMAT,
+      provider.id,
+      provider.model,
+      { ...provider.generationConfig, ...generationConfig },
+      systemPrompt,
+      tools ?? [],
+    ]),
+  );
+  const questionHash = await sha256(normalizeQuestion(question));
+  return `chat:answer:${version.slice(0, 16)}:${questionHash.slice(0, 32)}`;
+};
+
+export const readCachedAnswer = async (key: string, store: KeyValueStore = getStore()) =>
+  getAnswerCacheTtlSeconds() === 0 ? null : store.get<CachedAnswer>(key);
+
+export const writeCachedAnswer = async (
+  key: string,
+  answer: Omit<CachedAnswer, 'cachedAt'>,
+  store: KeyValueStore = getStore(),
+  now: number = Date.now(),
+) => {
+  const ttlSeconds = getAnswerCacheTtlSeconds();
+  if (ttlSeconds === 0 || !answer.response.trim()) return;
+  await store.set<CachedAnswer>(key, { ...answer, cachedAt: new Date(now).toISOString() }, { ttlSeconds });
+};
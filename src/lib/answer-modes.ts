@@ -0,0 +1,48 @@
+import { ANSWER_MODES, DEFAULT_ANSWER_MODE, type AnswerMode } from '../constants/chat';
+import type { GenerationConfig } from './llm/types';
+
+interface AnswerModeSettings {
+  /** Bullets for the prompt's answer mode section. */
+  instructions: string[];
+  /** Overrides on top of the provider's defaults. */
+  generationConfig: Partial<GenerationConfig>;
+}
+
+export const ANSWER_MODE_SETTINGS: Record<AnswerMode, AnswerModeSettings> = {
+  quick: {
+    instructions: [
+      'Keep responses concise but informative (around 100-200 words)',
+      'Answer the question first and keep only the details the player needs right now',
+    ],
+    generationConfig: { temperature: 0.4, maxOutputTokens: 1024 },
+  },
+  detailed: {
+    instructions: [
+      'Write a thorough guide of around 300-500 words',
+      'Organize it under short headings, and cover requirements, timing, and common mistakes where they apply',
+    ],
+    generationConfig: { temperature: 0.6, maxOutputTokens: 2048 },
+  },
+  checklist: {
+    instructions: [
+      'Answer as a numbered checklist of concrete steps in the order the player should do them',
+      'Keep each step to one or two lines, naming the season, day, or location when it matters',
+      'Add one short sentence before the list and no conclusion after it',
+    ],
+    generationConfig: { temperature: 0.3, maxOutputTokens: 1536 },
+  },
+};
+
+const ANSWER_MODE_IDS = new Set<string>(ANSWER_MODES.map((mode) => mode.id));
+
+export const isAnswerMode = (value: unknown): value is AnswerMode =>
+  typeof value === 'string' && ANSWER_MODE_IDS.has(value);
+
+/**
+ * Validates an untrusted `mode` against the allow-list. A missing mode means
+ * the default; anything else unknown returns `null` so the route can reject it.
+ */
+export const parseAnswerMode = (value: unknown): AnswerMode | null => {
+  if (value === undefined) return DEFAULT_ANSWER_MODE;
+  return isAnswerMode(value) ? value : null;
+};
@@ -0,0 +1,96 @@
+import type { ApiError, ApiErrorCode, ApiErrorResponse } from '../types/api';
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  RATE_LIMITED: 429,
+  UPSTREAM_QUOTA: 503,
+  CONTENT_BLOCKED: 422,
+  INVALID_INPUT: 400,
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  MISCONFIGURED: 500,
+  UPSTREAM_ERROR: 502,
+  STREAM_INTERRUPTED: 502,
+  INTERNAL_ERROR: 500,
+  NETWORK_ERROR: 503,
+};
+
+const RETRYABLE_CODES: ReadonlySet<ApiErrorCode> = new Set([
+  'RATE_LIMITED',
+  'UPSTREAM_QUOTA',
+  'UPSTREAM_ERROR',
+  'STREAM_INTERRUPTED',
+  'INTERNAL_ERROR',
+  'NETWORK_ERROR',
+]);
+
+const API_ERROR_CODES = Object.keys(API_ERROR_STATUS) as ApiErrorCode[];
+
+export const isApiErrorCode = (value: unknown): value is ApiErrorCode =>
+  typeof value === 'string' && API_ERROR_CODES.includes(value as ApiErrorCode);
+
+/**
+ * Error thrown anywhere on the server path with a machine-readable code. The
+ * route turns it into an `ApiErrorResponse`; anything else becomes `INTERNAL_ERROR`.
+ */
+export class ChatApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly retryAfterSeconds?: number;
+
+  constructor(code: ApiErrorCode, message: string, options: { retryAfterSeconds?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ChatApiError';
+    this.code = code;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+
+  get status() {
+    return API_ERROR_STATUS[this.code];
+  }
+
+  toJSON(): ApiError {
+    return createApiError(this.code, this.message, this.retryAfterSeconds);
+  }
+}
+
+export const createApiError = (code: ApiErrorCode, message: string, retryAfterSeconds?: number): ApiError => ({
+  code,
+  message,
+  retryable: RETRYABLE_CODES.has(code),
+  ...(retryAfterSeconds !== undefined ? { retryAfterSeconds } : {}),
+});
+
+export const toChatApiError = (error: unknown) =>
+  error instanceof ChatApiError
+    ? error
+    : new ChatApiError('INTERNAL_ERROR', 'An unexpected error occurred. Please try again later.', { cause: error });
+
+const GENERIC_ERROR_MESSAGES = {
+  MISCONFIGURED: 'The chat service is not configured correctly.',
+  UPSTREAM_QUOTA: 'The AI service is out of capacity for now. Please try again in a few minutes.',
+  UPSTREAM_ERROR: 'The AI service could not answer. Please try again.',
+  CONTENT_BLOCKED: 'The AI service declined to answer this question.',
+  STREAM_INTERRUPTED: 'The answer was interrupted before it finished.',
+} satisfies Partial<Record<ApiErrorCode, string>>;
+
+/**
+ * Logs `detail` on the server and returns an error carrying only the generic
+ * message for `code`, so provider responses and settings never reach the client.
+ */
+export const createRedactedError = (code: keyof typeof GENERIC_ERROR_MESSAGES, detail: string) => {
+  console.error(detail);
+  return new ChatApiError(code, GENERIC_ERROR_MESSAGES[code]);
+};
+
+/** Validates an untrusted JSON body (or stream event payload) as an API error. */
+export const parseApiError = (value: unknown): ApiError | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { error } = value as Partial<ApiErrorResponse>;
+  if (typeof error !== 'object' || error === null) return null;
+  if (!isApiErrorCode(error.code) || typeof error.message !== 'string') return null;
+
+  return createApiError(
+    error.code,
+    error.message,
+    typeof error.retryAfterSeconds === 'number' ? error.retryAfterSeconds : undefined,
+  );
+};
@@ -0,0 +1,61 @@
+import { DAYS_PER_SEASON, SEASONS, type Season } from '../constants/farm';
+import type { CalendarEvent, CalendarEventType, SeasonCalendar } from '../types/calendar';
+
+export const CALENDAR_EVENT_TYPE_LABELS: Record<CalendarEventType, string> = {
+  birthday: 'Birthday',
+  festival: 'Festival',
+  planting: 'Planting',
+  harvest: 'Harvest',
+};
+
+const CALENDAR_EVENT_TYPES = Object.keys(CALENDAR_EVENT_TYPE_LABELS) as CalendarEventType[];
+
+const isSeason = (value: unknown): value is Season => SEASONS.includes(value as Season);
+
+const reviveCalendarEvent = (value: unknown): CalendarEvent | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { day, season, type, label } = value as Record<string, unknown>;
+  if (typeof day !== 'number' || !Number.isInteger(day) || day < 1 || day > DAYS_PER_SEASON) return null;
+  if (!isSeason(season) || !CALENDAR_EVENT_TYPES.includes(type as CalendarEventType) || typeof label !== 'string') {
+    return null;
+  }
+  return { day, season, type: type as CalendarEventType, label };
+};
+
+/** Validates a calendar read from storage, a file or a request, keeping only well-formed events. */
+export const reviveCalendar = (value: unknown): SeasonCalendar | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { season, year, events } = value as Record<string, unknown>;
+  if (!isSeason(season) || !Array.isArray(events)) return undefined;
+  return {
+    season,
+    year: typeof year === 'number' && Number.isInteger(year) && year >= 1 ? year : undefined,
+    events: events.map(reviveCalendarEvent).filter((event): event is CalendarEvent => event !== null),
+  };
+};
+
+// Every season starts on a Monday, so day 1 sits in the first column.
+export const CALENDAR_WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export const formatCalendarTitle = (calendar: SeasonCalendar) =>
+  `${capitalize(calendar.season)}${calendar.year ? `, Year ${calendar.year}` : ''}`;
+
+/** Events grouped by day of the season, 1 through 28. */
+export const groupEventsByDay = (events: CalendarEvent[]) => {
+  const days = Array.from({ length: DAYS_PER_SEASON }, () => [] as CalendarEvent[]);
+  for (const event of events) {
+    days[event.day - 1]?.push(event);
+  }
+  return days;
+};
+
+/** Plain-text event list appended to copied transcripts. */
+export const formatCalendarAsText = (calendar: SeasonCalendar) =>
+  [
+    `Calendar (${formatCalendarTitle(calendar)}):`,
+    ...[...calendar.events]
+      .sort((a, b) => a.day - b.day)
+      .map((event) => `- Day ${event.day}: ${event.label} (${CALENDAR_EVENT_TYPE_LABELS[event.type]})`),
+  ].join('\n');
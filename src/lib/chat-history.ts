@@ -0,0 +1,105 @@
+import { MAX_HISTORY_ENTRIES } from '../constants/chat';
+import type { ChatHistoryTurn, ChatMessageRole } from '../types/chat';
+
+/** Most turns sent to the model; anything older only feeds the summary. */
+const MAX_HISTORY_TURNS = 40;
+const MAX_TURN_CHARS = 4000;
+const HISTORY_CHAR_BUDGET = 8000;
+const SUMMARY_QUESTION_CHARS = 120;
+const MAX_SUMMARY_QUESTIONS = 8;
+
+export interface FittedHistory {
+  turns: ChatHistoryTurn[];
+  summary: string | null;
+}
+
+const isChatRole = (value: unknown): value is ChatMessageRole => value === 'user' || value === 'assistant';
+
+const truncate = (text: string, maxChars: number) =>
+  text.length > maxChars ? `${text.slice(0, maxChars - 1).trimEnd()}…` : text;
+
+/**
+ * Validates an untrusted `history` payload. Returns `null` when the payload is
+ * malformed so the route can reject it, or the cleaned turns otherwise. Only
+ * the newest `MAX_HISTORY_ENTRIES` are read; a longer conversation is not an error.
+ */
+export const parseChatHistory = (value: unknown): ChatHistoryTurn[] | null => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return null;
+
+  const turns: ChatHistoryTurn[] = [];
+  for (const entry of value.slice(-MAX_HISTORY_ENTRIES)) {
+    if (typeof entry !== 'object' || entry === null) return null;
+    const { role, content } = entry as Record<string, unknown>;
+    if (!isChatRole(role) || typeof content !== 'string') return null;
+
+    const trimmed = content.trim();
+    if (!trimmed) continue;
+    turns.push({ role, content: truncate(trimmed, MAX_TURN_CHARS) });
+  }
+
+  return normalizeTurnOrder(turns);
+};
+
+// Gemini expects the conversation to open with a user turn and alternate roles,
+// so leading greetings are dropped, consecutive same-role turns are merged, and a
+// trailing unanswered question is discarded because the new message follows it.
+const normalizeTurnOrder = (turns: ChatHistoryTurn[]) => {
+  const firstUserIndex = turns.findIndex((turn) => turn.role === 'user');
+  if (firstUserIndex === -1) return [];
+
+  const normalized = turns.slice(firstUserIndex).reduce<ChatHistoryTurn[]>((merged, turn) => {
+    const previous = merged[merged.length - 1];
+    if (previous?.role === turn.role) {
+      merged[merged.length - 1] = { role: turn.role, content: `${previous.content}\n\n${turn.content}` };
+      return merged;
+    }
+    merged.push(turn);
+    return merged;
+  }, []);
+
+  if (normalized[normalized.length - 1]?.role === 'user') {
+    normalized.pop();
+  }
+  return normalized;
+};
+
+const summarizeDroppedTurns = (dropped: ChatHistoryTurn[]) => {
+  const questions = dropped
+    .filter((turn) => turn.role === 'user')
+    .slice(-MAX_SUMMARY_QUESTIONS)
+    .map((turn) => `- ${truncate(turn.content.replace(/\s+/g, ' '), SUMMARY_QUESTION_CHARS)}`);
+
+  if (questions.length === 0) return null;
+  return `Earlier in this conversation the player asked:\n${questions.join('\n')}`;
+};
+
+/**
+ * Keeps the most recent turns that fit inside the character budget, up to
+ * `MAX_HISTORY_TURNS` of them. Older turns are collapsed into a short summary of the player's earlier questions so
+ * follow-ups still have some context without growing the prompt unbounded.
+ */
+export const fitHistoryToBudget = (
+  turns: ChatHistoryTurn[],
+  budget: number = HISTORY_CHAR_BUDGET,
+): FittedHistory => {
+  let used = 0;
+  let startIndex = turns.length;
+
+  for (let i = turns.length - 1; i >= 0 && turns.length - i <= MAX_HISTORY_TURNS; i -= 1) {
+    const cost = turns[i].content.length;
+    if (used + cost > budget) break;
+    used += cost;
+    startIndex = i;
+  }
+
+  // Never open the kept window on an assistant turn.
+  while (startIndex < turns.length && turns[startIndex].role !== 'user') {
+    startIndex += 1;
+  }
+
+  return {
+    turns: turns.slice(startIndex),
+    summary: summarizeDroppedTurns(turns.slice(0, startIndex)),
+  };
+};
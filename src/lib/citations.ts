@@ -0,0 +1,37 @@
+import type { Citation, KnowledgeEntityType } from '../types/knowledge';
+
+export const CITATION_TYPE_LABELS: Record<KnowledgeEntityType, string> = {
+  villager: 'Villager',
+  crop: 'Crop',
+  fish: 'Fish',
+  recipe: 'Recipe',
+  bundle: 'Bundle',
+  festival: 'Festival',
+};
+
+const CITATION_TYPES = Object.keys(CITATION_TYPE_LABELS) as KnowledgeEntityType[];
+
+/**
+ * Validates a citation read from storage, a file or a request. Links must be
+ * `https`, since they are rendered as clickable wiki links.
+ */
+export const reviveCitation = (value: unknown): Citation | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { id, type, title, url } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof title !== 'string' || typeof url !== 'string') return null;
+  if (!CITATION_TYPES.includes(type as KnowledgeEntityType) || !url.startsWith('https://')) return null;
+  return { id, type: type as KnowledgeEntityType, title, url };
+};
+
+/** The valid citations in an untrusted list, or `undefined` when it isn't a list. */
+export const reviveCitations = (value: unknown): Citation[] | undefined =>
+  Array.isArray(value)
+    ? value.map(reviveCitation).filter((citation): citation is Citation => citation !== null)
+    : undefined;
+
+/** Plain-text "Sources" block appended to copied transcripts. */
+export const formatCitationsAsText = (citations: Citation[]) =>
+  [
+    'Sources:',
+    ...citations.map((citation) => `- ${citation.title} (${CITATION_TYPE_LABELS[citation.type]}): ${citation.url}`),
+  ].join('\n');
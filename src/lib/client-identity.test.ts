@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getClientIdentity } from './client-identity';
+
+describe('getClientIdentity', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('ignores the hops a client prepends to x-forwarded-for', () => {
+    vi.stubEnv('RATE_LIMIT_ALLOWLIST', '10.0.0.1');
+    const headers = new Headers({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7' });
+    expect(getClientIdentity(headers)).toEqual({ identifier: '203.0.113.7', tier: 'anonymous' });
+  });
+
+  it('prefers the platform-set x-real-ip', () => {
+    vi.stubEnv('RATE_LIMIT_ALLOWLIST', '198.51.100.2');
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '198.51.100.2' });
+    expect(getClientIdentity(headers)).toEqual({ identifier: '198.51.100.2', tier: 'allowlisted' });
+  });
+
+  it('keys authenticated clients by their bearer key', () => {
+    vi.stubEnv('RATE_LIMIT_CLIENT_KEYS', 'key-one');
+    const identity = getClientIdentity(new Headers({ authorization: 'Bearer key-one' }));
+    expect(identity.tier).toBe('authenticated');
+    expect(identity.identifier).toMatch(/^client:[0-9a-f]{16}$/);
+  });
+});
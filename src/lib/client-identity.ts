@@ -0,0 +1,44 @@
+import { createHash } from 'crypto';
+import type { ClientTier } from './rate-limit';
+
+export interface ClientIdentity {
+  /** Stable key used for rate-limit buckets. */
+  identifier: string;
+  tier: ClientTier;
+}
+
+const parseList = (value?: string) =>
+  value
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean) ?? [];
+
+// Clients can send their own `x-forwarded-for`; the proxy in front of the app appends
+// the address it saw, so only the right-most hop (or the platform's `x-real-ip`) is trusted.
+const getClientIp = (headers: Headers) =>
+  headers.get('x-real-ip')?.trim() || parseList(headers.get('x-forwarded-for') ?? undefined).at(-1) || 'unknown';
+
+// Never put raw client keys into store keys or logs.
+const fingerprint = (value: string) => createHash('sha256').update(value).digest('hex').slice(0, 16);
+
+/**
+ * Resolves who is calling and which quota tier applies:
+ * - `authenticated` when the request carries `Authorization: Bearer <key>` with a
+ *   key listed in `RATE_LIMIT_CLIENT_KEYS`; its bucket follows the key, not the IP.
+ * - `allowlisted` when the IP or the resolved identifier appears in `RATE_LIMIT_ALLOWLIST`.
+ * - `anonymous` otherwise, bucketed by IP.
+ */
+export const getClientIdentity = (headers: Headers): ClientIdentity => {
+  const ip = getClientIp(headers);
+
+  const bearer = headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  const isKnownClient = Boolean(bearer && parseList(process.env.RATE_LIMIT_CLIENT_KEYS).includes(bearer));
+  const identifier = isKnownClient && bearer ? `client:${fingerprint(bearer)}` : ip;
+
+  const allowlist = parseList(process.env.RATE_LIMIT_ALLOWLIST);
+  if (allowlist.includes(ip) || allowlist.includes(identifier)) {
+    return { identifier, tier: 'allowlisted' };
+  }
+
+  return { identifier, tier: isKnownClient ? 'authenticated' : 'anonymous' };
+};
@@ -0,0 +1,96 @@
+import type { ChatMessage } from '../types/chat';
+import type { Conversation, StoredChatMessage, StoredConversation } from '../types/conversations';
+
+const MAX_TITLE_LENGTH = 48;
+export const UNTITLED_CONVERSATION = 'New conversation';
+
+export const generateConversationId = () => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random()}`;
+};
+
+export const buildConversationTitle = (messages: ChatMessage[]) => {
+  const firstQuestion = messages.find((message) => message.role === 'user')?.content.replace(/\s+/g, ' ').trim();
+  if (!firstQuestion) return UNTITLED_CONVERSATION;
+  if (firstQuestion.length <= MAX_TITLE_LENGTH) return firstQuestion;
+  return `${firstQuestion.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`;
+};
+
+export const serializeMessage = (message: ChatMessage): StoredChatMessage => ({
+  ...message,
+  timestamp: message.timestamp instanceof Date ? message.timestamp.toISOString() : null,
+  alternatives: message.alternatives?.map((thread) => thread.map(serializeMessage)),
+});
+
+const reviveTimestamp = (value: unknown) => {
+  if (typeof value !== 'string') return undefined;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+const reviveMessage = (value: unknown): ChatMessage | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { role, content, timestamp, status, alternatives, variantIndex, ...rest } = value as Record<string, unknown>;
+  if ((role !== 'user' && role !== 'assistant') || typeof content !== 'string') return null;
+
+  const revivedAlternatives = Array.isArray(alternatives)
+    ? alternatives
+        .filter(Array.isArray)
+        .map((thread: unknown[]) => reviveMessages(thread))
+        .filter((thread) => thread.length > 0)
+    : [];
+  const hasFork = revivedAlternatives.length > 0 && typeof variantIndex === 'number';
+
+  return {
+    ...rest,
+    role,
+    content,
+    timestamp: reviveTimestamp(timestamp),
+    // A reload mid-stream leaves a half-written answer behind.
+    status: status === 'streaming' || status === 'incomplete' ? 'incomplete' : undefined,
+    ...(hasFork
+      ? {
+          alternatives: revivedAlternatives,
+          variantIndex: Math.min(Math.max(0, Math.floor(variantIndex)), revivedAlternatives.length),
+        }
+      : {}),
+  };
+};
+
+export const reviveMessages = (values: unknown[]) =>
+  values.map(reviveMessage).filter((message): message is ChatMessage => message !== null);
+
+export const serializeConversation = (conversation: Conversation): StoredConversation => ({
+  ...conversation,
+  messages: conversation.messages.map(serializeMessage),
+});
+
+export const reviveConversation = (value: unknown): Conversation | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { id, title, messages, createdAt, updatedAt } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || !Array.isArray(messages)) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id,
+    title: typeof title === 'string' && title.trim() ? title : UNTITLED_CONVERSATION,
+    messages: reviveMessages(messages),
+    createdAt: typeof createdAt === 'string' ? createdAt : now,
+    updatedAt: typeof updatedAt === 'string' ? updatedAt : now,
+  };
+};
+
+export const areMessagesEqual = (a: ChatMessage[], b: ChatMessage[]) =>
+  a.length === b.length &&
+  JSON.stringify(a.map(serializeMessage)) === JSON.stringify(b.map(serializeMessage));
+
+export const conversationMatchesQuery = (conversation: Conversation, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return (
+    conversation.title.toLowerCase().includes(needle) ||
+    conversation.messages.some((message) => message.content.toLowerCase().includes(needle))
+  );
+};
@@ -0,0 +1,147 @@
+import {
+  COMMUNITY_CENTER_BUNDLES,
+  DAYS_PER_SEASON,
+  FARM_AREAS,
+  FARM_TYPES,
+  MAX_FRIENDSHIPS,
+  MAX_HEARTS,
+  MAX_MONEY,
+  MAX_SHIPPED_ITEMS,
+  MAX_SKILL_LEVEL,
+  MAX_VILLAGER_NAME_LENGTH,
+  MAX_YEAR,
+  MUSEUM_ITEM_COUNT,
+  SEASONS,
+  SKILLS,
+  type CommunityCenterBundle,
+  type FarmArea,
+  type FarmType,
+  type Season,
+  type SkillName,
+} from '../constants/farm';
+import type { FarmProfile } from '../types/farm';
+
+export const DEFAULT_FARM_PROFILE: FarmProfile = {
+  season: 'spring',
+  day: 1,
+  year: 1,
+  farmType: 'standard',
+  unlockedAreas: [],
+  skills: { farming: 0, mining: 0, foraging: 0, fishing: 0, combat: 0 },
+  completedBundles: [],
+};
+
+const FARM_TYPE_IDS = new Set<string>(FARM_TYPES.map((farmType) => farmType.id));
+const FARM_AREA_IDS = new Set<string>(FARM_AREAS.map((area) => area.id));
+const BUNDLE_NAMES = new Set<string>(COMMUNITY_CENTER_BUNDLES.flatMap((room) => room.bundles));
+
+const isIntegerInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isSeason = (value: unknown): value is Season => SEASONS.includes(value as Season);
+
+const isOptionalIntegerInRange = (value: unknown, min: number, max: number) =>
+  value === undefined || isIntegerInRange(value, min, max);
+
+const isFriendshipHearts = (value: unknown): value is Record<string, number> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const entries = Object.entries(value);
+  return (
+    entries.length <= MAX_FRIENDSHIPS &&
+    entries.every(([name, hearts]) => name.length > 0 && name.length <= MAX_VILLAGER_NAME_LENGTH && isIntegerInRange(hearts, 0, MAX_HEARTS))
+  );
+};
+
+const isStringArrayOf = <T extends string>(value: unknown, allowed: Set<string>): value is T[] =>
+  Array.isArray(value) && value.length <= allowed.size && value.every((entry) => allowed.has(entry));
+
+/**
+ * Validates an untrusted farm profile. Returns `null` when any field is
+ * missing or out of range so the route can reject the request.
+ */
+export const parseFarmProfile = (value: unknown): FarmProfile | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const {
+    season,
+    day,
+    year,
+    farmType,
+    unlockedAreas,
+    skills,
+    completedBundles,
+    money,
+    friendshipHearts,
+    museumDonations,
+    shippedItems,
+  } = value as Record<string, unknown>;
+
+  if (!isSeason(season) || !isIntegerInRange(day, 1, DAYS_PER_SEASON) || !isIntegerInRange(year, 1, MAX_YEAR)) {
+    return null;
+  }
+  if (typeof farmType !== 'string' || !FARM_TYPE_IDS.has(farmType)) return null;
+  if (!isStringArrayOf<FarmArea>(unlockedAreas, FARM_AREA_IDS)) return null;
+  if (!isStringArrayOf<CommunityCenterBundle>(completedBundles, BUNDLE_NAMES)) return null;
+  if (typeof skills !== 'object' || skills === null) return null;
+
+  const skillLevels = skills as Record<string, unknown>;
+  if (!SKILLS.every((skill) => isIntegerInRange(skillLevels[skill], 0, MAX_SKILL_LEVEL))) return null;
+
+  if (
+    !isOptionalIntegerInRange(money, 0, MAX_MONEY) ||
+    !isOptionalIntegerInRange(museumDonations, 0, MUSEUM_ITEM_COUNT) ||
+    !isOptionalIntegerInRange(shippedItems, 0, MAX_SHIPPED_ITEMS) ||
+    (friendshipHearts !== undefined && !isFriendshipHearts(friendshipHearts))
+  ) {
+    return null;
+  }
+
+  return {
+    season,
+    day,
+    year,
+    farmType: farmType as FarmType,
+    unlockedAreas: [...new Set(unlockedAreas)],
+    skills: Object.fromEntries(SKILLS.map((skill) => [skill, skillLevels[skill]])) as Record<SkillName, number>,
+    completedBundles: [...new Set(completedBundles)],
+    ...(money !== undefined && { money: money as number }),
+    ...(friendshipHearts !== undefined && { friendshipHearts }),
+    ...(museumDonations !== undefined && { museumDonations: museumDonations as number }),
+    ...(shippedItems !== undefined && { shippedItems: shippedItems as number }),
+  };
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const getLabel = (options: readonly { id: string; label: string }[], id: string) =>
+  options.find((option) => option.id === id)?.label ?? id;
+
+/** Renders the profile as prompt lines describing the player's save. */
+export const formatFarmProfile = (profile: FarmProfile) => {
+  const daysLeft = DAYS_PER_SEASON - profile.day;
+  const remainingBundles = COMMUNITY_CENTER_BUNDLES.flatMap((room) => room.bundles).filter(
+    (bundle) => !profile.completedBundles.includes(bundle),
+  );
+
+  const friendships = Object.entries(profile.friendshipHearts ?? {})
+    .filter(([, hearts]) => hearts > 0)
+    .sort(([, a], [, b]) => b - a)
+    .map(([name, hearts]) => `${name} ${hearts}`);
+
+  return [
+    `- Date: ${capitalize(profile.season)} ${profile.day}, Year ${profile.year} (${daysLeft} days left in the season)`,
+    `- Farm type: ${getLabel(FARM_TYPES, profile.farmType)}`,
+    `- Unlocked areas: ${profile.unlockedAreas.length > 0 ? profile.unlockedAreas.map((area) => getLabel(FARM_AREAS, area)).join(', ') : 'none beyond the starting areas'}`,
+    `- Skill levels: ${SKILLS.map((skill) => `${capitalize(skill)} ${profile.skills[skill]}`).join(', ')}`,
+    remainingBundles.length === 0
+      ? '- Community Center: every bundle is complete'
+      : `- Community Center bundles still to complete: ${remainingBundles.join(', ')}`,
+    profile.money !== undefined ? `- Gold on hand: ${profile.money.toLocaleString('en-US')}g` : null,
+    friendships.length > 0 ? `- Friendship hearts: ${friendships.join(', ')}` : null,
+    profile.museumDonations !== undefined
+      ? `- Museum donations: ${profile.museumDonations} of ${MUSEUM_ITEM_COUNT}`
+      : null,
+    profile.shippedItems !== undefined ? `- Distinct items shipped: ${profile.shippedItems}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+};
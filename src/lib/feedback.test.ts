@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { isFeedbackExportAuthorized, listFeedback, saveFeedback } from './feedback';
+import { createMemoryStore } from './store';
+import type { FeedbackRequestBody } from '../types/feedback';
+
+const rating = (messageId: string, up: boolean): FeedbackRequestBody => ({
+  messageId,
+  rating: up ? 'up' : 'down',
+  reasons: [],
+  question: 'Best crops for Spring?',
+  answer: 'Strawberries.',
+});
+
+describe('listFeedback', () => {
+  it('reads every entry in one batch and keeps the latest rating per message', async () => {
+    const store = createMemoryStore();
+    await saveFeedback(rating('a', true), store);
+    await saveFeedback(rating('b', true), store);
+    await saveFeedback(rating('a', false), store);
+    const get = vi.spyOn(store, 'get');
+    const mget = vi.spyOn(store, 'mget');
+
+    const entries = await listFeedback(store);
+
+    expect(entries.map((entry) => [entry.messageId, entry.rating])).toEqual([
+      ['a', 'down'],
+      ['b', 'up'],
+    ]);
+    expect(mget).toHaveBeenCalledTimes(1);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns nothing when no feedback was stored', async () => {
+    expect(await listFeedback(createMemoryStore())).toEqual([]);
+  });
+});
+
+describe('isFeedbackExportAuthorized', () => {
+  it('accepts only the exact bearer key', () => {
+    expect(isFeedbackExportAuthorized('Bearer secret-key', 'secret-key')).toBe(true);
+    expect(isFeedbackExportAuthorized('Bearer secret-kez', 'secret-key')).toBe(false);
+    expect(isFeedbackExportAuthorized('Bearer secret', 'secret-key')).toBe(false);
+    expect(isFeedbackExportAuthorized(null, 'secret-key')).toBe(false);
+  });
+
+  it('stays closed while no key is configured', () => {
+    expect(isFeedbackExportAuthorized('Bearer ', undefined)).toBe(false);
+    expect(isFeedbackExportAuthorized('Bearer ', '')).toBe(false);
+  });
+});
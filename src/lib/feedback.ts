@@ -0,0 +1,98 @@
+import { timingSafeEqual } from 'crypto';
+import { FEEDBACK_RATINGS, FEEDBACK_REASONS, type FeedbackRating, type FeedbackReason } from '../constants/feedback';
+import { getStore, type KeyValueStore } from './store';
+import type { FeedbackRecord, FeedbackRequestBody } from '../types/feedback';
+
+const SEQUENCE_KEY = 'feedback:seq';
+const ENTRY_KEY_PREFIX = 'feedback:entry:';
+const FEEDBACK_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/** The export walks back from the newest entry; older ones stay in the store until they expire. */
+export const MAX_EXPORTED_FEEDBACK = 1000;
+
+const MAX_ID_LENGTH = 120;
+const MAX_LABEL_LENGTH = 80;
+const MAX_QUESTION_LENGTH = 2000;
+const MAX_ANSWER_LENGTH = 8000;
+
+const REASON_IDS = new Set<string>(FEEDBACK_REASONS.map((reason) => reason.id));
+
+const isRating = (value: unknown): value is FeedbackRating => FEEDBACK_RATINGS.includes(value as FeedbackRating);
+
+const isReasonList = (value: unknown): value is FeedbackReason[] =>
+  Array.isArray(value) && value.length <= REASON_IDS.size && value.every((reason) => REASON_IDS.has(reason));
+
+const readOptionalLabel = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_LABEL_LENGTH) : undefined;
+
+/**
+ * Validates an untrusted feedback body. Returns `null` when the rating,
+ * reasons or message id are unusable; long questions and answers are truncated.
+ */
+export const parseFeedbackRequest = (value: unknown): FeedbackRequestBody | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { messageId, rating, reasons = [], question, answer, model, promptVersion } = value as Record<string, unknown>;
+
+  if (typeof messageId !== 'string' || !messageId.trim() || messageId.length > MAX_ID_LENGTH) return null;
+  if (!isRating(rating) || !isReasonList(reasons)) return null;
+  if (typeof question !== 'string' || typeof answer !== 'string' || !answer.trim()) return null;
+
+  return {
+    messageId,
+    rating,
+    // Reasons only explain a thumbs down.
+    reasons: rating === 'down' ? [...new Set(reasons)] : [],
+    question: question.slice(0, MAX_QUESTION_LENGTH),
+    answer: answer.slice(0, MAX_ANSWER_LENGTH),
+    model: readOptionalLabel(model),
+    promptVersion: readOptionalLabel(promptVersion),
+  };
+};
+
+/** Appends feedback to the log. Entries are numbered so the export can read them back newest first. */
+export const saveFeedback = async (
+  feedback: FeedbackRequestBody,
+  store: KeyValueStore = getStore(),
+  now: number = Date.now(),
+): Promise<FeedbackRecord> => {
+  const sequence = await store.incrBy(SEQUENCE_KEY, 1);
+  const record: FeedbackRecord = { ...feedback, id: String(sequence), createdAt: new Date(now).toISOString() };
+  await store.set<FeedbackRecord>(`${ENTRY_KEY_PREFIX}${sequence}`, record, { ttlSeconds: FEEDBACK_TTL_SECONDS });
+  return record;
+};
+
+/**
+ * Checks an `Authorization` header against `Bearer <FEEDBACK_EXPORT_KEY>` in
+ * constant time, so response timing doesn't reveal how much of the key matched.
+ * Always `false` while the key is unset.
+ */
+export const isFeedbackExportAuthorized = (
+  authorization: string | null,
+  exportKey: string | undefined = process.env.FEEDBACK_EXPORT_KEY,
+) => {
+  if (!exportKey || !authorization) return false;
+  const expected = Buffer.from(`Bearer ${exportKey}`);
+  const received = Buffer.from(authorization);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+/**
+ * Reads the newest feedback, newest first. Changing a rating posts a new
+ * entry, so only the latest one per message is kept.
+ */
+export const listFeedback = async (
+  store: KeyValueStore = getStore(),
+  limit: number = MAX_EXPORTED_FEEDBACK,
+): Promise<FeedbackRecord[]> => {
+  const latest = (await store.get<number>(SEQUENCE_KEY)) ?? 0;
+  const first = Math.max(1, latest - limit + 1);
+  const keys = Array.from({ length: latest - first + 1 }, (_, offset) => `${ENTRY_KEY_PREFIX}${latest - offset}`);
+  const entries = await store.mget<FeedbackRecord>(keys);
+
+  const seen = new Set<string>();
+  return entries.filter((entry): entry is FeedbackRecord => {
+    if (!entry || seen.has(entry.messageId)) return false;
+    seen.add(entry.messageId);
+    return true;
+  });
+};
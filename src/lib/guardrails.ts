@@ -0,0 +1,135 @@
+import { ANSWER_MODES, type RefusalReason } from '../constants/chat';
+import type { KnowledgeEntry } from './knowledge/types';
+import type { PromptTemplate } from './prompts/types';
+import type { ChatHistoryTurn, ChatRefusal } from '../types/chat';
+
+/**
+ * Checks that run around generation: before the model sees a question and
+ * while its answer is produced. They are heuristics that back up the
+ * prompt's own security rules, so they err towards letting questions through.
+ */
+
+const PLAYER_TEXT_TAG = 'player_text';
+
+const REFUSAL_MESSAGES: Record<RefusalReason, string> = {
+  injection: "I can only help with Stardew Valley questions, and I can't change how I work. What would you like to know about the valley?",
+  'off-topic': "That's outside the valley, so I can't help with it. Ask me about crops, villagers, fishing, or anything else in Stardew Valley!",
+  'prompt-leak': "I can't share that. Ask me about Stardew Valley instead!",
+};
+
+export const createRefusal = (reason: RefusalReason): ChatRefusal => ({ reason, message: REFUSAL_MESSAGES[reason] });
+
+/**
+ * Wraps player-written text for the system prompt. Headings are escaped and
+ * the wrapper tags stripped from the text, so the player cannot close the
+ * block or forge a new prompt section.
+ */
+export const embedUserText = (text: string) => {
+  const escaped = text
+    .replace(new RegExp(`</?\\s*${PLAYER_TEXT_TAG}\\s*>`, 'gi'), '')
+    .replace(/^(\s*)#/gm, '$1\\#');
+  return `<${PLAYER_TEXT_TAG}>\n${escaped}\n</${PLAYER_TEXT_TAG}>`;
+};
+
+const INJECTION_PATTERNS = [
+  /\b(?:ignore|disregard|forget|override|bypass)\b(?:\s+(?:all|any|the|of))*\s+(?:your|previous|prior|above|earlier|system|original|these|those)\b[^.?!\n]{0,30}\b(?:instructions?|rules|prompts?|guidelines|directions|restrictions)\b/i,
+  /\b(?:reveal|show|print|repeat|tell me|output|display|leak|what(?:'s| is| are))\b[^.?!\n]{0,30}\b(?:system prompt|system message|your (?:instructions|prompt|rules|guidelines)|hidden (?:instructions|prompt)|api[ _-]?keys?)\b/i,
+  /\byou are (?:now|no longer)\b/i,
+  /\b(?:developer|god|jailbreak|dan|unrestricted) mode\b/i,
+  /^\s*#{1,6}\s*(?:system|instructions?|security guidelines|you are stardew sage)\b/im,
+  /<\/?\s*(?:player_text|system|instructions?)\s*>/i,
+];
+
+const OFF_TOPIC_PATTERNS = [
+  /\b(?:write|debug|fix|refactor|explain)\b[^.?!\n]{0,40}\b(?:code|function|script|program|sql|regex|class)\b/i,
+  /\b(?:python|javascript|typescript|c\+\+|java|golang|kotlin)\b/i,
+  /\b(?:stocks?|bitcoin|crypto(?:currency)?|election|politics|president|tax(?:es)?|mortgage)\b/i,
+  /\b(?:homework|essay|cover letter|resume|poem about)\b/i,
+];
+
+// Words that tie a question to the game even when the knowledge base has no match.
+const STARDEW_PATTERN =
+  /\b(?:stardew|pelican town|zuzu|calico|ginger island|junimos?|community center|joja|farm|crops?|harvest|villagers?|festivals?|mines?|skull cavern|fishing|forage|artisan|greenhouse|bundles?|hearts?|gifts?)\b/i;
+
+const isInjectionAttempt = (text: string) => INJECTION_PATTERNS.some((pattern) => pattern.test(text));
+
+/**
+ * Drops history exchanges that try to inject instructions, in either the
+ * player's turn or a forged answer. History comes from the client and reaches
+ * the model verbatim, so it is screened like the question. The whole exchange
+ * goes, keeping turns alternating, and the chat carries on instead of being
+ * refused for an earlier attempt. Expects turns from `parseChatHistory()`.
+ */
+export const screenHistory = (turns: ChatHistoryTurn[]) => {
+  const kept: ChatHistoryTurn[] = [];
+  for (let i = 0; i < turns.length; i += 2) {
+    const exchange = turns.slice(i, i + 2);
+    if (!exchange.some((turn) => isInjectionAttempt(turn.content))) kept.push(...exchange);
+  }
+  return kept;
+};
+
+/**
+ * Screens a question before it reaches the model. Returns the refusal to
+ * send, or `null` to answer normally. Off-topic checks only trigger when
+ * the question names nothing from the game or the retrieved facts.
+ */
+export const checkQuestion = (message: string, knowledge: KnowledgeEntry[]): ChatRefusal | null => {
+  if (isInjectionAttempt(message)) return createRefusal('injection');
+
+  // Retrieval always finds something, so only an entry named in the question counts.
+  const lowered = message.toLowerCase();
+  const isAboutStardew =
+    STARDEW_PATTERN.test(message) || knowledge.some((entry) => lowered.includes(entry.title.toLowerCase()));
+  if (!isAboutStardew && OFF_TOPIC_PATTERNS.some((pattern) => pattern.test(message))) {
+    return createRefusal('off-topic');
+  }
+  return null;
+};
+
+const normalizeForMatch = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[*_`•]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Shorter lines are too generic to prove a leak on their own. */
+const MIN_LEAK_LINE_LENGTH = 40;
+/** Section headings quoted together are a leak even when the bullets are paraphrased. */
+const MIN_LEAKED_HEADINGS = 2;
+
+const promptFingerprints = new WeakMap<PromptTemplate, { lines: string[]; headings: string[] }>();
+
+// Only the fixed wording counts: rendering with an empty context leaves out the player's own data and the facts.
+const getPromptFingerprint = (template: PromptTemplate) => {
+  let fingerprint = promptFingerprints.get(template);
+  if (!fingerprint) {
+    const bodies = ANSWER_MODES.flatMap(({ id: mode }) =>
+      template.sections.flatMap((section) => section.render({ summary: null, profile: null, knowledge: [], mode }) ?? []),
+    );
+    fingerprint = {
+      lines: [...new Set(bodies)]
+        .flatMap((body) => body.split('\n'))
+        .map((line) => normalizeForMatch(line.replace(/^\s*-\s*/, '')))
+        .filter((line) => line.length >= MIN_LEAK_LINE_LENGTH),
+      headings: template.sections.map((section) => `# ${normalizeForMatch(section.title)}`),
+    };
+    promptFingerprints.set(template, fingerprint);
+  }
+  return fingerprint;
+};
+
+/**
+ * Checks a (partial) answer for text copied from the system prompt. Run it
+ * on the accumulated text while streaming so a leak is cut off early.
+ */
+export const checkAnswer = (text: string, template: PromptTemplate): ChatRefusal | null => {
+  const normalized = normalizeForMatch(text);
+  const { lines, headings } = getPromptFingerprint(template);
+  const leakedHeadings = headings.filter((heading) => normalized.includes(heading)).length;
+
+  return lines.some((line) => normalized.includes(line)) || leakedHeadings >= MIN_LEAKED_HEADINGS
+    ? createRefusal('prompt-leak')
+    : null;
+};
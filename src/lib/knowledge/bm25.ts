@@ -0,0 +1,70 @@
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'best', 'can', 'do', 'does', 'for', 'from', 'get',
+  'give', 'good', 'how', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'should', 'so', 'that', 'the',
+  'their', 'them', 'there', 'this', 'to', 'want', 'was', 'what', 'when', 'where', 'which', 'who', 'why',
+  'will', 'with', 'you', 'your', 'stardew', 'valley',
+]);
+
+// Folds plurals so "strawberries" matches "Strawberry" and "gifts" matches "gift".
+const stem = (token: string) => {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+export const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/'s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !STOP_WORDS.has(token))
+    .map(stem);
+
+interface IndexedDocument {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export interface Bm25Index {
+  documents: IndexedDocument[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+export const buildBm25Index = (texts: string[]): Bm25Index => {
+  const documentFrequencies = new Map<string, number>();
+  const documents = texts.map((text) => {
+    const tokens = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+    }
+    for (const term of termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }
+    return { termFrequencies, length: tokens.length };
+  });
+
+  const totalLength = documents.reduce((sum, document) => sum + document.length, 0);
+  return { documents, documentFrequencies, averageLength: totalLength / Math.max(documents.length, 1) };
+};
+
+/** Okapi BM25 score of every indexed document against the query, in index order. */
+export const scoreBm25 = ({ documents, documentFrequencies, averageLength }: Bm25Index, query: string) => {
+  const terms = [...new Set(tokenize(query))];
+
+  return documents.map(({ termFrequencies, length }) =>
+    terms.reduce((score, term) => {
+      const frequency = termFrequencies.get(term);
+      if (!frequency) return score;
+
+      const documentFrequency = documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const normalizedLength = 1 - B + B * (length / averageLength);
+      return score + idf * ((frequency * (K1 + 1)) / (frequency + K1 * normalizedLength));
+    }, 0),
+  );
+};
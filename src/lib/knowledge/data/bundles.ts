@@ -0,0 +1,35 @@
+import type { BundleRecord } from '../types';
+
+/** Standard (non-remixed) Community Center bundles. */
+export const BUNDLES: BundleRecord[] = [
+  { name: 'Spring Crops Bundle', room: 'Pantry', items: ['Parsnip', 'Green Bean', 'Cauliflower', 'Potato'], reward: '20 Speed-Gro' },
+  { name: 'Summer Crops Bundle', room: 'Pantry', items: ['Tomato', 'Hot Pepper', 'Blueberry', 'Melon'], reward: 'Quality Sprinkler' },
+  { name: 'Fall Crops Bundle', room: 'Pantry', items: ['Corn', 'Eggplant', 'Pumpkin', 'Yam'], reward: 'Bee House' },
+  {
+    name: 'Quality Crops Bundle',
+    room: 'Pantry',
+    items: ['5 Gold-quality Parsnip', '5 Gold-quality Melon', '5 Gold-quality Pumpkin', '5 Gold-quality Corn'],
+    required: 3,
+    reward: 'Preserves Jar',
+  },
+  {
+    name: 'Animal Bundle',
+    room: 'Pantry',
+    items: ['Large Milk', 'Large Brown Egg', 'Large White Egg', 'Large Goat Milk', 'Wool', 'Duck Egg'],
+    required: 5,
+    reward: 'Cheese Press',
+  },
+  {
+    name: 'Artisan Bundle',
+    room: 'Pantry',
+    items: ['Truffle Oil', 'Cloth', 'Goat Cheese', 'Cheese', 'Honey', 'Jelly', 'Apple', 'Apricot', 'Orange', 'Peach', 'Pomegranate', 'Cherry'],
+    required: 6,
+    reward: 'Keg',
+  },
+  { name: 'River Fish Bundle', room: 'Fish Tank', items: ['Sunfish', 'Catfish', 'Shad', 'Tiger Trout'], reward: '30 Bait' },
+  { name: 'Lake Fish Bundle', room: 'Fish Tank', items: ['Largemouth Bass', 'Carp', 'Bullhead', 'Sturgeon'], reward: 'Dressed Spinner' },
+  { name: 'Ocean Fish Bundle', room: 'Fish Tank', items: ['Sardine', 'Tuna', 'Red Snapper', 'Tilapia'], reward: '5 Warp Totem: Beach' },
+  { name: 'Night Fishing Bundle', room: 'Fish Tank', items: ['Walleye', 'Bream', 'Eel'], reward: 'Small Glow Ring' },
+  { name: 'Specialty Fish Bundle', room: 'Fish Tank', items: ['Pufferfish', 'Ghostfish', 'Sandfish', 'Woodskip'], reward: "5 Dish O' The Sea" },
+  { name: 'Spring Foraging Bundle', room: 'Crafts Room', items: ['Wild Horseradish', 'Daffodil', 'Leek', 'Dandelion'], reward: '30 Spring Seeds' },
+];
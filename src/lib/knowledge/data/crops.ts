@@ -0,0 +1,66 @@
+import type { CropRecord } from '../types';
+
+export const CROPS: CropRecord[] = [
+  { name: 'Parsnip', seasons: ['spring'], seedPrice: 20, seedSource: "Pierre's", growthDays: 4, regrowthDays: null, sellPrice: 35 },
+  {
+    name: 'Cauliflower',
+    seasons: ['spring'],
+    seedPrice: 80,
+    seedSource: "Pierre's",
+    growthDays: 12,
+    regrowthDays: null,
+    sellPrice: 175,
+    notes: 'Can grow into a giant crop when planted in a 3x3 square.',
+  },
+  { name: 'Potato', seasons: ['spring'], seedPrice: 50, seedSource: "Pierre's", growthDays: 6, regrowthDays: null, sellPrice: 80, notes: 'Has a chance to drop extra potatoes.' },
+  { name: 'Green Bean', seasons: ['spring'], seedPrice: 60, seedSource: "Pierre's", growthDays: 10, regrowthDays: 3, sellPrice: 40, notes: 'Trellis crop that cannot be walked through.' },
+  { name: 'Kale', seasons: ['spring'], seedPrice: 70, seedSource: "Pierre's", growthDays: 6, regrowthDays: null, sellPrice: 110 },
+  { name: 'Garlic', seasons: ['spring'], seedPrice: 40, seedSource: "Pierre's (from year 2)", growthDays: 4, regrowthDays: null, sellPrice: 60 },
+  { name: 'Strawberry', seasons: ['spring'], seedPrice: 100, seedSource: 'Egg Festival', growthDays: 8, regrowthDays: 4, sellPrice: 120 },
+  { name: 'Rhubarb', seasons: ['spring'], seedPrice: 100, seedSource: 'Oasis', growthDays: 13, regrowthDays: null, sellPrice: 220 },
+  {
+    name: 'Blueberry',
+    seasons: ['summer'],
+    seedPrice: 80,
+    seedSource: "Pierre's",
+    growthDays: 13,
+    regrowthDays: 4,
+    sellPrice: 50,
+    harvestYield: 3,
+  },
+  { name: 'Melon', seasons: ['summer'], seedPrice: 80, seedSource: "Pierre's", growthDays: 12, regrowthDays: null, sellPrice: 250, notes: 'Can grow into a giant crop.' },
+  { name: 'Hot Pepper', seasons: ['summer'], seedPrice: 40, seedSource: "Pierre's", growthDays: 5, regrowthDays: 3, sellPrice: 40 },
+  { name: 'Tomato', seasons: ['summer'], seedPrice: 50, seedSource: "Pierre's", growthDays: 11, regrowthDays: 4, sellPrice: 60 },
+  { name: 'Hops', seasons: ['summer'], seedPrice: 60, seedSource: "Pierre's", growthDays: 11, regrowthDays: 1, sellPrice: 25, notes: 'Trellis crop; brews into Pale Ale in a Keg.' },
+  { name: 'Red Cabbage', seasons: ['summer'], seedPrice: 100, seedSource: "Pierre's (from year 2)", growthDays: 9, regrowthDays: null, sellPrice: 260 },
+  { name: 'Starfruit', seasons: ['summer'], seedPrice: 400, seedSource: 'Oasis', growthDays: 13, regrowthDays: null, sellPrice: 750 },
+  { name: 'Corn', seasons: ['summer', 'fall'], seedPrice: 150, seedSource: "Pierre's", growthDays: 14, regrowthDays: 4, sellPrice: 50 },
+  { name: 'Sunflower', seasons: ['summer', 'fall'], seedPrice: 200, seedSource: "Pierre's", growthDays: 8, regrowthDays: null, sellPrice: 80, notes: 'Also drops Sunflower Seeds when harvested.' },
+  { name: 'Pumpkin', seasons: ['fall'], seedPrice: 100, seedSource: "Pierre's", growthDays: 13, regrowthDays: null, sellPrice: 320, notes: 'Can grow into a giant crop.' },
+  {
+    name: 'Cranberries',
+    seasons: ['fall'],
+    seedPrice: 240,
+    seedSource: "Pierre's",
+    growthDays: 7,
+    regrowthDays: 5,
+    sellPrice: 75,
+    harvestYield: 2,
+  },
+  { name: 'Grape', seasons: ['fall'], seedPrice: 60, seedSource: "Pierre's", growthDays: 10, regrowthDays: 3, sellPrice: 80, notes: 'Trellis crop.' },
+  { name: 'Eggplant', seasons: ['fall'], seedPrice: 20, seedSource: "Pierre's", growthDays: 5, regrowthDays: 5, sellPrice: 60 },
+  { name: 'Bok Choy', seasons: ['fall'], seedPrice: 50, seedSource: "Pierre's", growthDays: 4, regrowthDays: null, sellPrice: 80 },
+  { name: 'Yam', seasons: ['fall'], seedPrice: 60, seedSource: "Pierre's", growthDays: 10, regrowthDays: null, sellPrice: 160 },
+  { name: 'Amaranth', seasons: ['fall'], seedPrice: 70, seedSource: "Pierre's", growthDays: 7, regrowthDays: null, sellPrice: 150 },
+  { name: 'Artichoke', seasons: ['fall'], seedPrice: 30, seedSource: "Pierre's (from year 2)", growthDays: 8, regrowthDays: null, sellPrice: 160 },
+  {
+    name: 'Ancient Fruit',
+    seasons: ['spring', 'summer', 'fall'],
+    seedPrice: null,
+    seedSource: 'Ancient Seeds from artifacts or a Seed Maker',
+    growthDays: 28,
+    regrowthDays: 7,
+    sellPrice: 550,
+    notes: 'Grows all year inside the Greenhouse or on Ginger Island.',
+  },
+];
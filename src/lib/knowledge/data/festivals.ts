@@ -0,0 +1,16 @@
+import type { FestivalRecord } from '../types';
+
+export const FESTIVALS: FestivalRecord[] = [
+  { name: 'Egg Festival', season: 'spring', startDay: 13, location: 'Town Square', notes: 'Strawberry seeds are sold here.' },
+  { name: 'Desert Festival', season: 'spring', startDay: 15, endDay: 17, location: 'Calico Desert', notes: 'Needs the bus repaired.' },
+  { name: 'Flower Dance', season: 'spring', startDay: 24, location: 'Cindersap Forest' },
+  { name: 'Luau', season: 'summer', startDay: 11, location: 'Beach', notes: 'Add a gold-quality item to the potluck to please the Governor.' },
+  { name: 'Trout Derby', season: 'summer', startDay: 20, endDay: 21, location: 'Cindersap Forest' },
+  { name: 'Dance of the Moonlight Jellies', season: 'summer', startDay: 28, location: 'Beach' },
+  { name: 'Stardew Valley Fair', season: 'fall', startDay: 16, location: 'Town Square', notes: 'Bring a grange display for star tokens.' },
+  { name: "Spirit's Eve", season: 'fall', startDay: 27, location: 'Town Square', notes: 'The maze hides a Golden Pumpkin.' },
+  { name: 'Festival of Ice', season: 'winter', startDay: 8, location: 'Cindersap Forest' },
+  { name: 'SquidFest', season: 'winter', startDay: 12, endDay: 13, location: 'Beach' },
+  { name: 'Night Market', season: 'winter', startDay: 15, endDay: 17, location: 'Beach' },
+  { name: 'Feast of the Winter Star', season: 'winter', startDay: 25, location: 'Town Square', notes: 'Secret gift exchange with one villager.' },
+];
@@ -0,0 +1,75 @@
+import type { FishRecord } from '../types';
+
+export const FISH: FishRecord[] = [
+  { name: 'Pufferfish', locations: ['Ocean', 'Ginger Island'], seasons: ['summer'], hours: { start: 12, end: 16 }, weather: 'sunny', sellPrice: 200 },
+  { name: 'Tuna', locations: ['Ocean'], seasons: ['summer', 'winter'], hours: { start: 6, end: 19 }, weather: 'any', sellPrice: 100 },
+  { name: 'Sardine', locations: ['Ocean'], seasons: ['spring', 'fall', 'winter'], hours: { start: 6, end: 19 }, weather: 'any', sellPrice: 40 },
+  { name: 'Red Snapper', locations: ['Ocean'], seasons: ['summer', 'fall'], hours: { start: 6, end: 19 }, weather: 'rainy', sellPrice: 50 },
+  { name: 'Octopus', locations: ['Ocean'], seasons: ['summer'], hours: { start: 6, end: 13 }, weather: 'any', sellPrice: 150 },
+  { name: 'Sea Cucumber', locations: ['Ocean'], seasons: ['fall', 'winter'], hours: { start: 6, end: 19 }, weather: 'any', sellPrice: 75 },
+  { name: 'Eel', locations: ['Ocean'], seasons: ['spring', 'fall'], hours: { start: 16, end: 26 }, weather: 'rainy', sellPrice: 85 },
+  {
+    name: 'Catfish',
+    locations: ['Town River', 'Forest River', 'Secret Woods'],
+    seasons: ['spring', 'fall'],
+    hours: { start: 6, end: 24 },
+    weather: 'rainy',
+    sellPrice: 200,
+    notes: 'Also bites in the Secret Woods pond during rainy summer days.',
+  },
+  { name: 'Walleye', locations: ['Town River', 'Forest River', 'Mountain Lake', 'Forest Pond'], seasons: ['fall'], hours: { start: 12, end: 26 }, weather: 'rainy', sellPrice: 105 },
+  { name: 'Largemouth Bass', locations: ['Mountain Lake'], seasons: ['spring', 'summer', 'fall', 'winter'], hours: { start: 6, end: 19 }, weather: 'any', sellPrice: 100 },
+  {
+    name: 'Sturgeon',
+    locations: ['Mountain Lake'],
+    seasons: ['summer', 'winter'],
+    hours: { start: 6, end: 19 },
+    weather: 'any',
+    sellPrice: 200,
+    notes: 'Its roe makes Caviar in a Preserves Jar.',
+  },
+  { name: 'Sandfish', locations: ['Calico Desert'], seasons: ['spring', 'summer', 'fall', 'winter'], hours: { start: 6, end: 20 }, weather: 'any', sellPrice: 75 },
+  { name: 'Ghostfish', locations: ['The Mines (floors 20 and 60)'], seasons: ['spring', 'summer', 'fall', 'winter'], hours: { start: 6, end: 26 }, weather: 'any', sellPrice: 45 },
+  { name: 'Lava Eel', locations: ['The Mines (floor 100)'], seasons: ['spring', 'summer', 'fall', 'winter'], hours: { start: 6, end: 26 }, weather: 'any', sellPrice: 700 },
+  { name: 'Mutant Carp', locations: ['The Sewers'], seasons: ['spring', 'summer', 'fall', 'winter'], hours: { start: 6, end: 26 }, weather: 'any', sellPrice: 1000, isLegendary: true },
+  {
+    name: 'Legend',
+    locations: ['Mountain Lake, near the log'],
+    seasons: ['spring'],
+    hours: { start: 6, end: 20 },
+    weather: 'rainy',
+    sellPrice: 5000,
+    isLegendary: true,
+    notes: 'Requires Fishing level 10.',
+  },
+  {
+    name: 'Crimsonfish',
+    locations: ['East end of the Beach pier'],
+    seasons: ['summer'],
+    hours: { start: 6, end: 26 },
+    weather: 'any',
+    sellPrice: 1500,
+    isLegendary: true,
+    notes: 'Requires Fishing level 5.',
+  },
+  {
+    name: 'Angler',
+    locations: ['Wooden plank bridge north of JojaMart'],
+    seasons: ['fall'],
+    hours: { start: 6, end: 26 },
+    weather: 'any',
+    sellPrice: 900,
+    isLegendary: true,
+    notes: 'Requires Fishing level 3.',
+  },
+  {
+    name: 'Glacierfish',
+    locations: ['Southern tip of Arrowhead Island in Cindersap Forest'],
+    seasons: ['winter'],
+    hours: { start: 6, end: 26 },
+    weather: 'any',
+    sellPrice: 1000,
+    isLegendary: true,
+    notes: 'Requires Fishing level 6.',
+  },
+];
@@ -0,0 +1,17 @@
+import type { RecipeRecord } from '../types';
+
+export const RECIPES: RecipeRecord[] = [
+  { name: 'Fried Egg', ingredients: ['Egg'], source: 'Known from the start' },
+  { name: 'Complete Breakfast', ingredients: ['Fried Egg', 'Milk', 'Hashbrowns', 'Pancakes'] },
+  { name: 'Salad', ingredients: ['Leek', 'Dandelion', 'Vinegar'], source: 'Emily at 3 hearts' },
+  { name: 'Pizza', ingredients: ['Wheat Flour', 'Tomato', 'Cheese'] },
+  { name: 'Pink Cake', ingredients: ['Melon', 'Wheat Flour', 'Sugar', 'Egg'] },
+  { name: 'Spicy Eel', ingredients: ['Eel', 'Hot Pepper'], source: 'George at 7 hearts' },
+  { name: 'Pumpkin Soup', ingredients: ['Pumpkin', 'Milk'], source: 'Robin at 7 hearts' },
+  { name: 'Tom Kha Soup', ingredients: ['Coconut', 'Shrimp', 'Common Mushroom'], source: 'Sandy at 7 hearts' },
+  { name: 'Pepper Poppers', ingredients: ['Hot Pepper', 'Cheese'], source: 'Shane at 3 hearts' },
+  { name: 'Survival Burger', ingredients: ['Bread', 'Cave Carrot', 'Eggplant'], source: 'Foraging level 2' },
+  { name: 'Maki Roll', ingredients: ['Any Fish', 'Seaweed', 'Rice'] },
+  { name: 'Crab Cakes', ingredients: ['Crab', 'Wheat Flour', 'Egg', 'Oil'] },
+  { name: 'Lucky Lunch', ingredients: ['Sea Cucumber', 'Tortilla', 'Blue Jazz'] },
+];
@@ -0,0 +1,238 @@
+import type { VillagerRecord } from '../types';
+
+export const VILLAGERS: VillagerRecord[] = [
+  {
+    name: 'Abigail',
+    birthday: { season: 'fall', day: 13 },
+    home: "Pierre's General Store",
+    marriageCandidate: true,
+    loves: ['Amethyst', 'Banana Pudding', 'Blackberry Cobbler', 'Chocolate Cake', 'Pufferfish', 'Pumpkin', 'Spicy Eel'],
+    hates: ['Clay', 'Holly'],
+  },
+  {
+    name: 'Alex',
+    birthday: { season: 'summer', day: 13 },
+    home: '1 River Road',
+    marriageCandidate: true,
+    loves: ['Complete Breakfast', 'Salmon Dinner'],
+    hates: ['Holly', 'Quartz'],
+  },
+  {
+    name: 'Elliott',
+    birthday: { season: 'fall', day: 5 },
+    home: "Elliott's Cabin on the beach",
+    marriageCandidate: true,
+    loves: ['Crab Cakes', 'Duck Feather', 'Lobster', 'Pomegranate', 'Squid Ink', 'Tom Kha Soup'],
+    hates: ['Amaranth', 'Quartz', 'Salmonberry', 'Sea Cucumber'],
+  },
+  {
+    name: 'Emily',
+    birthday: { season: 'spring', day: 27 },
+    home: '2 Willow Lane',
+    marriageCandidate: true,
+    loves: ['Amethyst', 'Aquamarine', 'Cloth', 'Emerald', 'Jade', 'Ruby', 'Survival Burger', 'Topaz', 'Wool'],
+    hates: ['Fish Taco', 'Holly', 'Maki Roll', 'Salmon Dinner', 'Sashimi'],
+  },
+  {
+    name: 'Haley',
+    birthday: { season: 'spring', day: 14 },
+    home: '2 Willow Lane',
+    marriageCandidate: true,
+    loves: ['Coconut', 'Fruit Salad', 'Pink Cake', 'Sunflower'],
+    hates: ['Clay', 'Prismatic Shard', 'Wild Horseradish'],
+    notes: 'Haley is the only villager who hates the Prismatic Shard.',
+  },
+  {
+    name: 'Harvey',
+    birthday: { season: 'winter', day: 14 },
+    home: "Harvey's Clinic",
+    marriageCandidate: true,
+    loves: ['Coffee', 'Pickles', 'Super Meal', 'Truffle Oil', 'Wine'],
+    hates: ['Coral', 'Nautilus Shell', 'Rainbow Shell', 'Salmonberry', 'Spice Berry'],
+  },
+  {
+    name: 'Leah',
+    birthday: { season: 'winter', day: 23 },
+    home: "Leah's Cottage in Cindersap Forest",
+    marriageCandidate: true,
+    loves: ['Goat Cheese', 'Poppyseed Muffin', 'Salad', 'Stir Fry', 'Truffle', 'Vegetable Medley', 'Wine'],
+    hates: ['Bread', 'Hashbrowns', 'Pancakes', 'Pizza', 'Void Egg'],
+  },
+  {
+    name: 'Maru',
+    birthday: { season: 'summer', day: 10 },
+    home: "Carpenter's Shop",
+    marriageCandidate: true,
+    loves: [
+      'Battery Pack',
+      'Cauliflower',
+      'Cheese Cauliflower',
+      'Diamond',
+      'Gold Bar',
+      'Iridium Bar',
+      "Miner's Treat",
+      'Pepper Poppers',
+      'Radioactive Bar',
+      'Rhubarb Pie',
+      'Strawberry',
+    ],
+    hates: ['Holly', 'Honey', 'Pickles', 'Snow Yam', 'Truffle'],
+  },
+  {
+    name: 'Penny',
+    birthday: { season: 'fall', day: 2 },
+    home: 'Trailer',
+    marriageCandidate: true,
+    loves: ['Diamond', 'Emerald', 'Melon', 'Poppy', 'Poppyseed Muffin', 'Red Plate', 'Roots Platter', 'Sandfish', 'Tom Kha Soup'],
+    hates: ['Beer', 'Grape', 'Holly', 'Hops', 'Mead', 'Pale Ale', 'Piña Colada', "Rabbit's Foot", 'Wine'],
+    notes: "Penny is the only villager who hates the Rabbit's Foot.",
+  },
+  {
+    name: 'Sam',
+    birthday: { season: 'summer', day: 17 },
+    home: '1 Willow Lane',
+    marriageCandidate: true,
+    loves: ['Cactus Fruit', 'Maple Bar', 'Pizza', 'Tigerseye'],
+    hates: ['Coal', 'Copper Bar', 'Duck Mayonnaise', 'Gold Bar', 'Iridium Bar', 'Iron Bar', 'Mayonnaise', 'Pickles', 'Refined Quartz'],
+  },
+  {
+    name: 'Sebastian',
+    birthday: { season: 'winter', day: 10 },
+    home: "Carpenter's Shop",
+    marriageCandidate: true,
+    loves: ['Frog Egg', 'Frozen Tear', 'Obsidian', 'Pumpkin Soup', 'Sashimi', 'Void Egg'],
+    hates: ['Clay', 'Complete Breakfast', "Farmer's Lunch", 'Omelet'],
+  },
+  {
+    name: 'Shane',
+    birthday: { season: 'spring', day: 20 },
+    home: "Marnie's Ranch",
+    marriageCandidate: true,
+    loves: ['Beer', 'Hot Pepper', 'Pepper Poppers', 'Pizza'],
+    hates: ['Holly', 'Pickles', 'Quartz'],
+  },
+  {
+    name: 'Caroline',
+    birthday: { season: 'winter', day: 7 },
+    home: "Pierre's General Store",
+    marriageCandidate: false,
+    loves: ['Fish Taco', 'Green Tea', 'Summer Spangle', 'Tropical Curry'],
+    hates: ['Amaranth', 'Quartz', 'Salmonberry'],
+  },
+  {
+    name: 'Clint',
+    birthday: { season: 'winter', day: 26 },
+    home: 'Blacksmith',
+    marriageCandidate: false,
+    loves: ['Amethyst', 'Aquamarine', 'Artichoke Dip', 'Emerald', 'Fiddlehead Risotto', 'Gold Bar', 'Iridium Bar', 'Jade', 'Omni Geode', 'Ruby', 'Topaz'],
+    hates: ['Holly'],
+  },
+  {
+    name: 'Demetrius',
+    birthday: { season: 'summer', day: 19 },
+    home: "Carpenter's Shop",
+    marriageCandidate: false,
+    loves: ['Bean Hotpot', 'Ice Cream', 'Rice Pudding', 'Strawberry'],
+    hates: ['Holly'],
+  },
+  {
+    name: 'Evelyn',
+    birthday: { season: 'winter', day: 20 },
+    home: '1 River Road',
+    marriageCandidate: false,
+    loves: ['Beet', 'Chocolate Cake', 'Diamond', 'Fairy Rose', 'Stuffing', 'Tulip'],
+    hates: ['Clam', 'Clay', 'Coral', 'Fried Eel', 'Garlic', 'Holly', 'Spicy Eel'],
+  },
+  {
+    name: 'George',
+    birthday: { season: 'fall', day: 24 },
+    home: '1 River Road',
+    marriageCandidate: false,
+    loves: ['Fried Mushroom', 'Leek'],
+    hates: ['Clay', 'Dandelion', 'Holly'],
+  },
+  {
+    name: 'Gus',
+    birthday: { season: 'summer', day: 8 },
+    home: 'The Stardrop Saloon',
+    marriageCandidate: false,
+    loves: ['Diamond', 'Escargot', 'Fish Taco', 'Orange', 'Tropical Curry'],
+    hates: ['Coleslaw', 'Holly'],
+  },
+  {
+    name: 'Jodi',
+    birthday: { season: 'fall', day: 11 },
+    home: '1 Willow Lane',
+    marriageCandidate: false,
+    loves: ['Chocolate Cake', 'Crispy Bass', 'Diamond', 'Eggplant Parmesan', 'Fried Eel', 'Pancakes', 'Rhubarb Pie', 'Vegetable Medley'],
+    hates: ['Daffodil', 'Garlic'],
+  },
+  {
+    name: 'Krobus',
+    birthday: { season: 'winter', day: 1 },
+    home: 'The Sewers',
+    marriageCandidate: false,
+    loves: ['Diamond', 'Iridium Bar', 'Pumpkin', 'Void Egg', 'Void Mayonnaise', 'Wild Horseradish'],
+    hates: [],
+    notes: 'Krobus can become a roommate instead of a spouse.',
+  },
+  {
+    name: 'Lewis',
+    birthday: { season: 'spring', day: 7 },
+    home: "Mayor's Manor",
+    marriageCandidate: false,
+    loves: ["Autumn's Bounty", 'Glazed Yams', 'Green Tea', 'Hot Pepper', 'Vegetable Medley'],
+    hates: ['Holly'],
+  },
+  {
+    name: 'Linus',
+    birthday: { season: 'winter', day: 3 },
+    home: 'Tent north of the Mountain',
+    marriageCandidate: false,
+    loves: ['Blueberry Tart', 'Cactus Fruit', 'Coconut', "Dish O' The Sea", 'Yam'],
+    hates: [],
+  },
+  {
+    name: 'Marnie',
+    birthday: { season: 'fall', day: 18 },
+    home: "Marnie's Ranch",
+    marriageCandidate: false,
+    loves: ['Diamond', "Farmer's Lunch", 'Pink Cake', 'Pumpkin Pie'],
+    hates: ['Clay', 'Holly', 'Salmonberry'],
+  },
+  {
+    name: 'Pierre',
+    birthday: { season: 'spring', day: 26 },
+    home: "Pierre's General Store",
+    marriageCandidate: false,
+    loves: ['Fried Calamari'],
+    hates: ['Garlic'],
+  },
+  {
+    name: 'Robin',
+    birthday: { season: 'fall', day: 21 },
+    home: "Carpenter's Shop",
+    marriageCandidate: false,
+    loves: ['Goat Cheese', 'Peach', 'Spaghetti'],
+    hates: ['Holly'],
+  },
+  {
+    name: 'Willy',
+    birthday: { season: 'summer', day: 24 },
+    home: "Fish Shop on the beach",
+    marriageCandidate: false,
+    loves: ['Catfish', 'Diamond', 'Gold Bar', 'Iridium Bar', 'Mead', 'Octopus', 'Pumpkin', 'Sea Cucumber', 'Sturgeon'],
+    hates: ['Holly'],
+  },
+  {
+    name: 'Wizard',
+    birthday: { season: 'winter', day: 17 },
+    home: "Wizard's Tower in Cindersap Forest",
+    marriageCandidate: false,
+    loves: ['Purple Mushroom', 'Solar Essence', 'Super Cucumber', 'Void Essence'],
+    hates: [],
+  },
+];
+
+/** Gifts loved by almost everyone, with the exceptions noted on individual villagers. */
+export const UNIVERSAL_LOVES = ['Golden Pumpkin', 'Magic Rock Candy', 'Pearl', 'Prismatic Shard', "Rabbit's Foot"];
@@ -0,0 +1,143 @@
+import { BUNDLES } from './data/bundles';
+import { CROPS } from './data/crops';
+import { FESTIVALS } from './data/festivals';
+import { FISH } from './data/fish';
+import { RECIPES } from './data/recipes';
+import { UNIVERSAL_LOVES, VILLAGERS } from './data/villagers';
+import type {
+  BundleRecord,
+  CropRecord,
+  FestivalRecord,
+  FishRecord,
+  KnowledgeEntry,
+  RecipeRecord,
+  Season,
+  VillagerRecord,
+} from './types';
+
+const toSlug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/'/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+const toWikiPage = (name: string) => name.replace(/ /g, '_');
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatSeasons = (seasons: Season[]) =>
+  seasons.length === 4 ? 'all seasons' : seasons.map(capitalize).join(', ');
+
+export const formatHour = (hour: number) => {
+  const normalized = hour % 24;
+  const suffix = normalized < 12 ? 'am' : 'pm';
+  const twelveHour = normalized % 12 === 0 ? 12 : normalized % 12;
+  return `${twelveHour}${suffix}`;
+};
+
+const villagerEntry = (villager: VillagerRecord): KnowledgeEntry => {
+  const exceptions = UNIVERSAL_LOVES.filter((gift) => villager.hates.includes(gift));
+  const universalLoves = UNIVERSAL_LOVES.filter((gift) => !exceptions.includes(gift));
+  const facts = [
+    `Birthday: ${capitalize(villager.birthday.season)} ${villager.birthday.day}.`,
+    `Lives at ${villager.home}.`,
+    villager.marriageCandidate ? 'Marriage candidate.' : null,
+    `Loved gifts: ${villager.loves.join(', ')}, plus the universal loves (${universalLoves.join(', ')}).`,
+    villager.hates.length > 0 ? `Hated gifts: ${villager.hates.join(', ')}.` : null,
+    villager.notes ?? null,
+  ];
+
+  return {
+    id: `villager:${toSlug(villager.name)}`,
+    type: 'villager',
+    title: villager.name,
+    text: facts.filter(Boolean).join(' '),
+    wikiPage: toWikiPage(villager.name),
+  };
+};
+
+const cropEntry = (crop: CropRecord): KnowledgeEntry => {
+  const facts = [
+    `Season: ${formatSeasons(crop.seasons)}.`,
+    crop.seedPrice === null ? `Seeds: ${crop.seedSource}.` : `Seeds cost ${crop.seedPrice}g at ${crop.seedSource}.`,
+    `Grows in ${crop.growthDays} days.`,
+    crop.regrowthDays ? `Regrows every ${crop.regrowthDays} days after the first harvest.` : 'Single harvest.',
+    crop.harvestYield ? `Yields ${crop.harvestYield} per harvest.` : null,
+    `Sells for ${crop.sellPrice}g at normal quality.`,
+    crop.notes ?? null,
+  ];
+
+  return {
+    id: `crop:${toSlug(crop.name)}`,
+    type: 'crop',
+    title: crop.name,
+    text: facts.filter(Boolean).join(' '),
+    wikiPage: toWikiPage(crop.name),
+  };
+};
+
+const fishEntry = (fish: FishRecord): KnowledgeEntry => {
+  const weather = fish.weather === 'any' ? 'any weather' : `${fish.weather} days only`;
+  const facts = [
+    fish.isLegendary ? 'Legendary fish.' : null,
+    `Found in: ${fish.locations.join(', ')}.`,
+    `Season: ${formatSeasons(fish.seasons)}.`,
+    `Bites ${formatHour(fish.hours.start)} to ${formatHour(fish.hours.end)} in ${weather}.`,
+    `Sells for ${fish.sellPrice}g.`,
+    fish.notes ?? null,
+  ];
+
+  return {
+    id: `fish:${toSlug(fish.name)}`,
+    type: 'fish',
+    title: fish.name,
+    text: facts.filter(Boolean).join(' '),
+    wikiPage: toWikiPage(fish.name),
+  };
+};
+
+const recipeEntry = (recipe: RecipeRecord): KnowledgeEntry => ({
+  id: `recipe:${toSlug(recipe.name)}`,
+  type: 'recipe',
+  title: recipe.name,
+  text: [`Cooking recipe. Ingredients: ${recipe.ingredients.join(', ')}.`, recipe.source ? `Learned from: ${recipe.source}.` : null]
+    .filter(Boolean)
+    .join(' '),
+  wikiPage: toWikiPage(recipe.name),
+});
+
+const bundleEntry = (bundle: BundleRecord): KnowledgeEntry => {
+  const requirement = bundle.required ? `Any ${bundle.required} of: ` : 'Requires: ';
+  return {
+    id: `bundle:${toSlug(bundle.name)}`,
+    type: 'bundle',
+    title: bundle.name,
+    text: `Community Center ${bundle.room} bundle. ${requirement}${bundle.items.join(', ')}. Reward: ${bundle.reward}.`,
+    wikiPage: 'Bundles',
+    wikiAnchor: toWikiPage(bundle.name),
+  };
+};
+
+const festivalEntry = (festival: FestivalRecord): KnowledgeEntry => {
+  const season = capitalize(festival.season);
+  const dates = festival.endDay
+    ? `${season} ${festival.startDay}-${festival.endDay}`
+    : `${season} ${festival.startDay}`;
+  return {
+    id: `festival:${toSlug(festival.name)}`,
+    type: 'festival',
+    title: festival.name,
+    text: [`Festival on ${dates} at the ${festival.location}.`, festival.notes ?? null].filter(Boolean).join(' '),
+    wikiPage: toWikiPage(festival.name),
+  };
+};
+
+export const buildKnowledgeEntries = (): KnowledgeEntry[] => [
+  ...VILLAGERS.map(villagerEntry),
+  ...CROPS.map(cropEntry),
+  ...FISH.map(fishEntry),
+  ...RECIPES.map(recipeEntry),
+  ...BUNDLES.map(bundleEntry),
+  ...FESTIVALS.map(festivalEntry),
+];
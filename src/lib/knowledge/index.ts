@@ -0,0 +1,75 @@
+import { buildBm25Index, scoreBm25, type Bm25Index } from './bm25';
+import { buildKnowledgeEntries } from './entries';
+import type { Citation } from '../../types/knowledge';
+import type { KnowledgeEntry } from './types';
+
+export * from './types';
+
+/**
+ * Bump whenever the bundled data changes so cached answers and logs can be
+ * traced back to the facts they were grounded on.
+ */
+export const KNOWLEDGE_BASE_VERSION = '1.6-r2';
+
+const MAX_RESULTS = 5;
+/** Entries scoring below this share of the best match are treated as noise. */
+const RELATIVE_SCORE_CUTOFF = 0.4;
+const MIN_SCORE = 1;
+/** Weight of the previous question, so follow-ups like "what about her birthday?" still find the villager. */
+const PREVIOUS_QUESTION_WEIGHT = 0.5;
+/** Titles are repeated when indexed so a name match outranks a passing mention. */
+const TITLE_BOOST = 3;
+
+interface KnowledgeIndex {
+  entries: KnowledgeEntry[];
+  bm25: Bm25Index;
+}
+
+let knowledgeIndex: KnowledgeIndex | null = null;
+
+const getKnowledgeIndex = () => {
+  if (!knowledgeIndex) {
+    const entries = buildKnowledgeEntries();
+    const texts = entries.map((entry) => `${`${entry.title} `.repeat(TITLE_BOOST)}${entry.type} ${entry.text}`);
+    knowledgeIndex = { entries, bm25: buildBm25Index(texts) };
+  }
+  return knowledgeIndex;
+};
+
+export const retrieveKnowledge = (
+  question: string,
+  previousQuestion?: string,
+  limit: number = MAX_RESULTS,
+): KnowledgeEntry[] => {
+  const { entries, bm25 } = getKnowledgeIndex();
+  const scores = scoreBm25(bm25, question);
+  if (previousQuestion) {
+    scoreBm25(bm25, previousQuestion).forEach((score, index) => {
+      scores[index] += score * PREVIOUS_QUESTION_WEIGHT;
+    });
+  }
+
+  const ranked = entries
+    .map((entry, index) => ({ entry, score: scores[index] }))
+    .filter(({ score }) => score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+  if (ranked.length === 0) return [];
+
+  const cutoff = ranked[0].score * RELATIVE_SCORE_CUTOFF;
+  return ranked
+    .filter(({ score }) => score >= cutoff)
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+};
+
+export const formatKnowledgeContext = (entries: KnowledgeEntry[]) =>
+  entries.map((entry) => `- [${entry.type}] ${entry.title}: ${entry.text}`).join('\n');
+
+const WIKI_BASE_URL = 'https://stardewvalleywiki.com/';
+
+export const toCitation = ({ id, type, title, wikiPage, wikiAnchor }: KnowledgeEntry): Citation => ({
+  id,
+  type,
+  title,
+  url: `${WIKI_BASE_URL}${encodeURI(wikiPage)}${wikiAnchor ? `#${encodeURIComponent(wikiAnchor)}` : ''}`,
+});
@@ -0,0 +1,80 @@
+import type { Season } from '../../constants/farm';
+import type { KnowledgeEntityType } from '../../types/knowledge';
+
+export type { Season };
+
+export interface VillagerRecord {
+  name: string;
+  birthday: { season: Season; day: number };
+  home: string;
+  marriageCandidate: boolean;
+  /** Personal loves on top of the universal loves every villager shares. */
+  loves: string[];
+  hates: string[];
+  notes?: string;
+}
+
+export interface CropRecord {
+  name: string;
+  seasons: Season[];
+  /** Seed price in gold, or `null` when seeds cannot be bought. */
+  seedPrice: number | null;
+  seedSource: string;
+  growthDays: number;
+  /** Days between harvests for crops that keep producing, otherwise `null`. */
+  regrowthDays: number | null;
+  /** Base sell price of a normal-quality crop. */
+  sellPrice: number;
+  /** Crops harvested per plant per harvest when it is reliably more than one. */
+  harvestYield?: number;
+  notes?: string;
+}
+
+export interface FishRecord {
+  name: string;
+  locations: string[];
+  seasons: Season[];
+  /** Catch window in 24-hour time; values past 24 run into the early morning (26 = 2am). */
+  hours: { start: number; end: number };
+  weather: 'sunny' | 'rainy' | 'any';
+  sellPrice: number;
+  isLegendary?: boolean;
+  notes?: string;
+}
+
+export interface RecipeRecord {
+  name: string;
+  ingredients: string[];
+  source?: string;
+}
+
+export interface BundleRecord {
+  name: string;
+  room: string;
+  items: string[];
+  /** How many of the listed items are needed when it is fewer than all of them. */
+  required?: number;
+  reward: string;
+}
+
+export interface FestivalRecord {
+  name: string;
+  season: Season;
+  startDay: number;
+  /** Last day for festivals that run over several days. */
+  endDay?: number;
+  location: string;
+  notes?: string;
+}
+
+/** A searchable fact rendered from one of the records above. */
+export interface KnowledgeEntry {
+  id: string;
+  type: KnowledgeEntityType;
+  title: string;
+  text: string;
+  /** Page name on the Stardew Valley Wiki. */
+  wikiPage: string;
+  /** Section of the wiki page covering this entry, when it shares a page with others. */
+  wikiAnchor?: string;
+}
@@ -0,0 +1,214 @@
+import { createRedactedError } from '../api-errors';
+import { readSseData } from '../sse';
+import {
+  estimateTokenCount,
+  isToolCallTurn,
+  isToolResultTurn,
+  type GenerationConfig,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmToolCall,
+  type LlmToolDefinition,
+  type LlmTurn,
+} from './types';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  temperature: 0.5, // Controls randomness (0.0 = deterministic, 1.0 = creative)
+  topP: 0.8, // Controls diversity of word selection
+  topK: 40, // Limits token selection to top K options
+  maxOutputTokens: 2048, // Maximum response length
+};
+
+interface GeminiPart {
+  text?: string;
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+}
+
+interface GeminiCandidate {
+  content?: { parts?: GeminiPart[] };
+  finishReason?: string;
+}
+
+interface GeminiUsageMetadata {
+  candidatesTokenCount?: number;
+}
+
+const extractCandidateText = (candidate?: GeminiCandidate) =>
+  candidate?.content?.parts?.map((part) => part.text ?? '').join('') ?? '';
+
+// Gemini only sometimes assigns call ids, so fall back to one derived from the position.
+const extractToolCalls = (candidate: GeminiCandidate | undefined, offset = 0): LlmToolCall[] =>
+  (candidate?.content?.parts ?? [])
+    .flatMap((part) => (part.functionCall ? [part.functionCall] : []))
+    .map((call, index) => ({
+      id: call.id ?? `${call.name}-${offset + index}`,
+      name: call.name,
+      arguments: call.args ?? {},
+    }));
+
+// Gemini's schema uses upper-case OpenAPI type names.
+const toGeminiFunctionDeclaration = ({ name, description, parameters }: LlmToolDefinition) => ({
+  name,
+  description,
+  parameters: {
+    type: 'OBJECT',
+    properties: Object.fromEntries(
+      Object.entries(parameters.properties).map(([key, property]) => [
+        key,
+        { ...property, type: property.type.toUpperCase() },
+      ]),
+    ),
+    required: parameters.required,
+  },
+});
+
+// Gemini names the assistant role "model"; tool results go back as user-role function responses.
+const toGeminiContent = (turn: LlmTurn) => {
+  if (isToolResultTurn(turn)) {
+    return {
+      role: 'user',
+      parts: turn.results.map(({ name, result }) => ({ functionResponse: { name, response: { result } } })),
+    };
+  }
+  if (isToolCallTurn(turn)) {
+    return {
+      role: 'model',
+      parts: [
+        ...(turn.content ? [{ text: turn.content }] : []),
+        ...turn.toolCalls.map(({ name, arguments: args }) => ({ functionCall: { name, args } })),
+      ],
+    };
+  }
+  return { role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.content }] };
+};
+
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION']);
+
+interface GeminiErrorBody {
+  error?: { status?: string; message?: string; details?: { reason?: string }[] };
+}
+
+const toGeminiError = async (response: Response) => {
+  const errorData: GeminiErrorBody | null = await response.json().catch(() => null);
+  console.error('Gemini API error:', errorData);
+
+  const detail = `Gemini API returned status ${response.status}`;
+  const upstreamStatus = errorData?.error?.status;
+  const isInvalidKey = errorData?.error?.details?.some((entry) => entry.reason === 'API_KEY_INVALID');
+
+  if (response.status === 429 || upstreamStatus === 'RESOURCE_EXHAUSTED') {
+    return createRedactedError('UPSTREAM_QUOTA', `${detail}: model quota exhausted`);
+  }
+  if (isInvalidKey || response.status === 401 || response.status === 403) {
+    return createRedactedError('MISCONFIGURED', `${detail}: the Gemini API key was rejected`);
+  }
+  if (response.status >= 500) {
+    return createRedactedError('UPSTREAM_ERROR', `${detail}: Gemini is temporarily unavailable`);
+  }
+  // Remaining 4xx responses mean the payload we built was rejected.
+  return createRedactedError('UPSTREAM_ERROR', `${detail}: ${errorData?.error?.message ?? 'request rejected'}`);
+};
+
+const toBlockedError = (reason: string) =>
+  createRedactedError('CONTENT_BLOCKED', `Gemini declined to answer (reason: ${reason})`);
+
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: { apiKey: string; model?: string }) => {
+  const buildRequestBody = ({ systemPrompt, turns, generationConfig, tools, toolChoice }: LlmRequest) => ({
+    systemInstruction: {
+      parts: [{ text: systemPrompt }],
+    },
+    contents: turns.map(toGeminiContent),
+    ...(tools?.length
+      ? {
+          tools: [{ functionDeclarations: tools.map(toGeminiFunctionDeclaration) }],
+          toolConfig: { functionCallingConfig: { mode: toolChoice === 'none' ? 'NONE' : 'AUTO' } },
+        }
+      : {}),
+    generationConfig: { ...DEFAULT_GENERATION_CONFIG, ...generationConfig },
+  });
+
+  const post = (action: 'generateContent' | 'streamGenerateContent', request: LlmRequest) => {
+    const params = new URLSearchParams({ key: apiKey });
+    if (action === 'streamGenerateContent') params.set('alt', 'sse');
+
+    return fetch(`${GEMINI_BASE_URL}/${model}:${action}?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildRequestBody(request)),
+      signal: request.signal,
+    });
+  };
+
+  const provider: LlmProvider = {
+    id: 'gemini',
+    model,
+    generationConfig: DEFAULT_GENERATION_CONFIG,
+
+    async generate(request) {
+      const response = await post('generateContent', request);
+      if (!response.ok) throw await toGeminiError(response);
+
+      const data = await response.json();
+      const candidate: GeminiCandidate | undefined = data.candidates?.[0];
+      const blockReason: string | undefined = data.promptFeedback?.blockReason;
+      if (blockReason) throw toBlockedError(blockReason);
+      if (candidate?.finishReason && BLOCKED_FINISH_REASONS.has(candidate.finishReason)) {
+        throw toBlockedError(candidate.finishReason);
+      }
+
+      const text = extractCandidateText(candidate);
+      const toolCalls = extractToolCalls(candidate);
+      if (!text && toolCalls.length === 0) {
+        throw createRedactedError('UPSTREAM_ERROR', 'Unexpected response format from Gemini API');
+      }
+      const usage: GeminiUsageMetadata | undefined = data.usageMetadata;
+      return { text, outputTokens: usage?.candidatesTokenCount ?? estimateTokenCount(text), toolCalls };
+    },
+
+    async *stream(request) {
+      const response = await post('streamGenerateContent', request);
+      if (!response.ok || !response.body) throw await toGeminiError(response);
+
+      let finishReason: string | undefined;
+      let streamedText = '';
+      let reportedTokens: number | undefined;
+      let toolCallCount = 0;
+      for await (const data of readSseData(response.body)) {
+        const chunk = JSON.parse(data);
+        if (chunk.promptFeedback?.blockReason) throw toBlockedError(chunk.promptFeedback.blockReason);
+        const candidate: GeminiCandidate | undefined = chunk.candidates?.[0];
+        const text = extractCandidateText(candidate);
+        if (text) {
+          streamedText += text;
+          yield { type: 'text', text };
+        }
+        // Function calls arrive whole rather than in fragments.
+        for (const call of extractToolCalls(candidate, toolCallCount)) {
+          toolCallCount += 1;
+          yield { type: 'tool_call', call };
+        }
+        finishReason = candidate?.finishReason ?? finishReason;
+        // Each chunk carries the running total, so the last one wins.
+        reportedTokens = (chunk.usageMetadata as GeminiUsageMetadata | undefined)?.candidatesTokenCount ?? reportedTokens;
+      }
+
+      yield { type: 'usage', outputTokens: reportedTokens ?? estimateTokenCount(streamedText) };
+
+      // Anything other than STOP (token limit, safety block) means the answer was cut short.
+      if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+        throw toBlockedError(finishReason);
+      }
+      if (finishReason !== 'STOP') {
+        throw createRedactedError(
+          'STREAM_INTERRUPTED',
+          `Gemini stream ended early (finish reason: ${finishReason ?? 'none'})`,
+        );
+      }
+    },
+  };
+
+  return provider;
+};
@@ -0,0 +1,54 @@
+import { createRedactedError } from '../api-errors';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAiCompatibleProvider } from './openai';
+import type { LlmProvider, LlmProviderId } from './types';
+
+export * from './types';
+
+const PROVIDER_IDS: LlmProviderId[] = ['gemini', 'openai', 'mock'];
+
+const isProviderId = (value: string): value is LlmProviderId => PROVIDER_IDS.includes(value as LlmProviderId);
+
+/**
+ * Builds the provider selected by `LLM_PROVIDER` (defaults to Gemini). `LLM_MODEL`
+ * overrides the provider's default model.
+ *
+ * @throws ChatApiError with code `MISCONFIGURED` when the selected provider is missing its settings
+ */
+export const getLlmProvider = (): LlmProvider => {
+  const providerId = (process.env.LLM_PROVIDER ?? 'gemini').trim().toLowerCase();
+  const model = process.env.LLM_MODEL?.trim() || undefined;
+
+  if (!isProviderId(providerId)) {
+    throw createRedactedError(
+      'MISCONFIGURED',
+      `Unknown LLM_PROVIDER "${providerId}". Use one of: ${PROVIDER_IDS.join(', ')}.`,
+    );
+  }
+
+  switch (providerId) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY && !process.env.OPENAI_BASE_URL) {
+        throw createRedactedError(
+          'MISCONFIGURED',
+          'OpenAI-compatible provider is not configured. Set OPENAI_API_KEY or OPENAI_BASE_URL.',
+        );
+      }
+      return createOpenAiCompatibleProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL || undefined,
+        model,
+      });
+    case 'gemini':
+      if (!process.env.GEMINI_API_KEY) {
+        throw createRedactedError(
+          'MISCONFIGURED',
+          'Gemini API key is not configured. Please check your environment variables.',
+        );
+      }
+      return createGeminiProvider({ apiKey: process.env.GEMINI_API_KEY, model });
+  }
+};
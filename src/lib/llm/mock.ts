@@ -0,0 +1,105 @@
+import { SEASONS } from '../../constants/farm';
+import type { ChatHistoryTurn } from '../../types/chat';
+import { CROPS } from '../knowledge/data/crops';
+import { VILLAGERS } from '../knowledge/data/villagers';
+import {
+  estimateTokenCount,
+  isToolResultTurn,
+  type GenerationConfig,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmToolCall,
+} from './types';
+
+export const MOCK_MODEL = 'stardew-sage-mock';
+
+const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  temperature: 0,
+  topP: 1,
+  maxOutputTokens: 2048,
+};
+
+const getQuestion = ({ turns }: LlmRequest) =>
+  turns.findLast((turn): turn is ChatHistoryTurn => turn.role === 'user')?.content ?? '';
+
+const mentions = (question: string, name: string) =>
+  new RegExp(`\\b${name.replace(/y$/, '(y|ies)')}`, 'i').test(question);
+
+/**
+ * Calls the matching calculator once when the question asks for a season's
+ * calendar, names a villager, or asks about a crop's profit, so the tool loop
+ * can be exercised offline.
+ */
+const planMockToolCalls = (request: LlmRequest): LlmToolCall[] => {
+  const toolNames = new Set(request.tools?.map((tool) => tool.name));
+  if (request.toolChoice === 'none' || request.turns.some(isToolResultTurn)) return [];
+
+  const question = getQuestion(request);
+  const villager = VILLAGERS.find((entry) => mentions(question, entry.name));
+  const crop = /profit/i.test(question) ? CROPS.find((entry) => mentions(question, entry.name)) : undefined;
+
+  const season = SEASONS.find((entry) => mentions(question, entry));
+  if (season && /calendar|birthday|festival/i.test(question) && toolNames.has('show_season_calendar')) {
+    return [{ id: 'mock-call-1', name: 'show_season_calendar', arguments: { season } }];
+  }
+  if (crop && toolNames.has('calculate_crop_profit')) {
+    return [{ id: 'mock-call-1', name: 'calculate_crop_profit', arguments: { crop: crop.name } }];
+  }
+  if (villager && toolNames.has('lookup_gift_tastes')) {
+    return [{ id: 'mock-call-1', name: 'lookup_gift_tastes', arguments: { villager: villager.name } }];
+  }
+  return [];
+};
+
+const buildMockAnswer = (request: LlmRequest) => {
+  const question = getQuestion(request);
+  const earlierQuestions = request.turns.filter((turn) => turn.role === 'user').length - 1;
+  const toolsUsed = request.turns.filter(isToolResultTurn).flatMap((turn) => turn.results.map((result) => result.name));
+
+  return [
+    `🌱 **Mock answer** to: _${question}_`,
+    '',
+    `This reply comes from the local mock provider, so no model was called. It saw ${earlierQuestions} earlier question${earlierQuestions === 1 ? '' : 's'} in this conversation.`,
+    ...(toolsUsed.length > 0 ? ['', `It checked: ${toolsUsed.map((name) => `\`${name}\``).join(', ')}.`] : []),
+    '',
+    '- Set `LLM_PROVIDER=gemini` or `LLM_PROVIDER=openai` to talk to a real model.',
+  ].join('\n');
+};
+
+/**
+ * Deterministic provider for offline development and tests. The same request
+ * always produces the same answer, streamed word by word.
+ */
+export const createMockProvider = () => {
+  const provider: LlmProvider = {
+    id: 'mock',
+    model: MOCK_MODEL,
+    generationConfig: DEFAULT_GENERATION_CONFIG,
+
+    async generate(request) {
+      const toolCalls = planMockToolCalls(request);
+      if (toolCalls.length > 0) return { text: '', outputTokens: 0, toolCalls };
+
+      const text = buildMockAnswer(request);
+      return { text, outputTokens: estimateTokenCount(text) };
+    },
+
+    async *stream(request) {
+      const toolCalls = planMockToolCalls(request);
+      if (toolCalls.length > 0) {
+        for (const call of toolCalls) yield { type: 'tool_call', call };
+        yield { type: 'usage', outputTokens: 0 };
+        return;
+      }
+
+      const text = buildMockAnswer(request);
+      for (const fragment of text.split(/(?<=\s)/)) {
+        if (request.signal?.aborted) return;
+        yield { type: 'text', text: fragment };
+      }
+      yield { type: 'usage', outputTokens: estimateTokenCount(text) };
+    },
+  };
+
+  return provider;
+};
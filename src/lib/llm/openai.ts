@@ -0,0 +1,225 @@
+import { createRedactedError } from '../api-errors';
+import { readSseData } from '../sse';
+import {
+  estimateTokenCount,
+  isToolCallTurn,
+  isToolResultTurn,
+  type GenerationConfig,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmToolCall,
+  type LlmTurn,
+} from './types';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+// topK has no equivalent in the chat completions API and is ignored.
+const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  temperature: 0.5,
+  topP: 0.8,
+  maxOutputTokens: 2048,
+};
+
+interface OpenAiToolCall {
+  id: string;
+  function: { name: string; arguments: string };
+}
+
+interface OpenAiToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAiChoice {
+  message?: { content?: string | null; tool_calls?: OpenAiToolCall[] };
+  delta?: { content?: string | null; tool_calls?: OpenAiToolCallDelta[] };
+  finish_reason?: string | null;
+}
+
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: (OpenAiToolCall & { type: 'function' })[];
+  tool_call_id?: string;
+}
+
+const FINISHED_REASONS = new Set(['stop', 'tool_calls']);
+
+interface OpenAiUsage {
+  completion_tokens?: number;
+}
+
+interface OpenAiErrorBody {
+  error?: { code?: string | null; type?: string; message?: string };
+}
+
+const toOpenAiError = async (response: Response) => {
+  const errorData: OpenAiErrorBody | null = await response.json().catch(() => null);
+  console.error('OpenAI-compatible API error:', errorData);
+
+  const detail = `OpenAI-compatible API returned status ${response.status}`;
+  if (response.status === 429) {
+    return createRedactedError('UPSTREAM_QUOTA', `${detail}: ${errorData?.error?.code ?? 'rate limited'}`);
+  }
+  if (response.status === 401 || response.status === 403) {
+    return createRedactedError('MISCONFIGURED', `${detail}: the API key was rejected`);
+  }
+  if (errorData?.error?.code === 'content_filter') {
+    return createRedactedError('CONTENT_BLOCKED', `${detail}: the prompt was filtered`);
+  }
+  return createRedactedError('UPSTREAM_ERROR', `${detail}: ${errorData?.error?.message ?? 'request failed'}`);
+};
+
+// Models occasionally emit malformed argument JSON; the tool then reports the missing fields.
+const parseToolArguments = (raw: string) => {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return typeof parsed === 'object' && parsed !== null ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const toToolCall = ({ id, function: { name, arguments: args } }: OpenAiToolCall): LlmToolCall => ({
+  id,
+  name,
+  arguments: parseToolArguments(args),
+});
+
+const toOpenAiMessages = (turn: LlmTurn): OpenAiMessage[] => {
+  if (isToolResultTurn(turn)) {
+    return turn.results.map(({ callId, result }) => ({
+      role: 'tool' as const,
+      tool_call_id: callId,
+      content: JSON.stringify(result),
+    }));
+  }
+  if (isToolCallTurn(turn)) {
+    return [
+      {
+        role: 'assistant',
+        content: turn.content || null,
+        tool_calls: turn.toolCalls.map(({ id, name, arguments: args }) => ({
+          id,
+          type: 'function' as const,
+          function: { name, arguments: JSON.stringify(args) },
+        })),
+      },
+    ];
+  }
+  return [{ role: turn.role, content: turn.content }];
+};
+
+const toFinishError = (finishReason: string | null | undefined) =>
+  finishReason === 'content_filter'
+    ? createRedactedError('CONTENT_BLOCKED', 'The model declined to answer (content filter)')
+    : createRedactedError(
+        'STREAM_INTERRUPTED',
+        `OpenAI-compatible stream ended early (finish reason: ${finishReason ?? 'none'})`,
+      );
+
+/**
+ * Works with any server that implements the OpenAI chat completions API
+ * (OpenAI, Azure OpenAI, OpenRouter, Ollama, vLLM, LM Studio, ...).
+ */
+export const createOpenAiCompatibleProvider = ({
+  apiKey,
+  baseUrl = DEFAULT_OPENAI_BASE_URL,
+  model = DEFAULT_OPENAI_MODEL,
+}: {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}) => {
+  const post = ({ systemPrompt, turns, generationConfig, tools, toolChoice, signal }: LlmRequest, stream: boolean) => {
+    const config = { ...DEFAULT_GENERATION_CONFIG, ...generationConfig };
+    return fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        // Servers that support it send a final chunk with token usage
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        messages: [{ role: 'system', content: systemPrompt }, ...turns.flatMap(toOpenAiMessages)],
+        ...(tools?.length
+          ? {
+              tools: tools.map((tool) => ({ type: 'function', function: tool })),
+              tool_choice: toolChoice ?? 'auto',
+            }
+          : {}),
+        temperature: config.temperature,
+        top_p: config.topP,
+        max_tokens: config.maxOutputTokens,
+      }),
+      signal,
+    });
+  };
+
+  const provider: LlmProvider = {
+    id: 'openai',
+    model,
+    generationConfig: DEFAULT_GENERATION_CONFIG,
+
+    async generate(request) {
+      const response = await post(request, false);
+      if (!response.ok) throw await toOpenAiError(response);
+
+      const data = await response.json();
+      const choice: OpenAiChoice | undefined = data.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw toFinishError(choice.finish_reason);
+      const text = choice?.message?.content ?? '';
+      const toolCalls = (choice?.message?.tool_calls ?? []).map(toToolCall);
+      if (!text && toolCalls.length === 0) {
+        throw createRedactedError('UPSTREAM_ERROR', 'Unexpected response format from OpenAI-compatible API');
+      }
+      const usage: OpenAiUsage | undefined = data.usage;
+      return { text, outputTokens: usage?.completion_tokens ?? estimateTokenCount(text), toolCalls };
+    },
+
+    async *stream(request) {
+      const response = await post(request, true);
+      if (!response.ok || !response.body) throw await toOpenAiError(response);
+
+      let finishReason: string | null | undefined;
+      let streamedText = '';
+      let reportedTokens: number | undefined;
+      // Tool calls stream as fragments keyed by index and are only complete at the end.
+      const pendingToolCalls: OpenAiToolCall[] = [];
+      for await (const data of readSseData(response.body)) {
+        if (data === '[DONE]') break;
+        const chunk = JSON.parse(data);
+        const choice: OpenAiChoice | undefined = chunk.choices?.[0];
+        const text = choice?.delta?.content;
+        if (text) {
+          streamedText += text;
+          yield { type: 'text', text };
+        }
+        for (const fragment of choice?.delta?.tool_calls ?? []) {
+          const pending = (pendingToolCalls[fragment.index] ??= { id: '', function: { name: '', arguments: '' } });
+          pending.id = fragment.id ?? pending.id;
+          pending.function.name += fragment.function?.name ?? '';
+          pending.function.arguments += fragment.function?.arguments ?? '';
+        }
+        finishReason = choice?.finish_reason ?? finishReason;
+        reportedTokens = (chunk.usage as OpenAiUsage | null | undefined)?.completion_tokens ?? reportedTokens;
+      }
+
+      for (const [index, call] of pendingToolCalls.entries()) {
+        if (call) yield { type: 'tool_call', call: toToolCall({ ...call, id: call.id || `call-${index}` }) };
+      }
+      yield { type: 'usage', outputTokens: reportedTokens ?? estimateTokenCount(streamedText) };
+
+      if (!finishReason || !FINISHED_REASONS.has(finishReason)) {
+        throw toFinishError(finishReason);
+      }
+    },
+  };
+
+  return provider;
+};
@@ -0,0 +1,97 @@
+import type { ChatHistoryTurn } from '../../types/chat';
+
+export type LlmProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface GenerationConfig {
+  temperature: number;
+  topP: number;
+  topK?: number;
+  maxOutputTokens: number;
+}
+
+export interface LlmToolParameter {
+  type: 'string' | 'integer' | 'number' | 'boolean';
+  description: string;
+  enum?: string[];
+}
+
+/** A local function the model may call, described with a JSON Schema subset every provider accepts. */
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, LlmToolParameter>;
+    required?: string[];
+  };
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LlmToolResult {
+  callId: string;
+  name: string;
+  result: unknown;
+}
+
+/** The model's turn that requested tool calls, replayed so it can see its own request. */
+export interface LlmToolCallTurn {
+  role: 'assistant';
+  content: string;
+  toolCalls: LlmToolCall[];
+}
+
+export interface LlmToolResultTurn {
+  role: 'tool';
+  results: LlmToolResult[];
+}
+
+export type LlmTurn = ChatHistoryTurn | LlmToolCallTurn | LlmToolResultTurn;
+
+export const isToolCallTurn = (turn: LlmTurn): turn is LlmToolCallTurn => 'toolCalls' in turn;
+
+export const isToolResultTurn = (turn: LlmTurn): turn is LlmToolResultTurn => turn.role === 'tool';
+
+export interface LlmRequest {
+  systemPrompt: string;
+  /** The conversation so far, ending with the player's new question and any tool rounds. */
+  turns: LlmTurn[];
+  generationConfig?: Partial<GenerationConfig>;
+  tools?: LlmToolDefinition[];
+  /** `none` keeps the tools declared but forces a text answer. */
+  toolChoice?: 'auto' | 'none';
+  signal?: AbortSignal;
+}
+
+export interface LlmResult {
+  text: string;
+  /** Tokens generated, as reported by the provider or estimated from the text. */
+  outputTokens: number;
+  /** Calls the model wants answered before it gives its final reply. */
+  toolCalls?: LlmToolCall[];
+}
+
+export type LlmStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: LlmToolCall }
+  | { type: 'usage'; outputTokens: number };
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  model: string;
+  generationConfig: GenerationConfig;
+  generate: (request: LlmRequest) => Promise<LlmResult>;
+  /**
+   * Yields text fragments and tool calls as they are produced, followed by a
+   * `usage` event. Throws after the partial text if the upstream stream ends
+   * before the answer is finished; ending on tool calls counts as finished.
+   */
+  stream: (request: LlmRequest) => AsyncIterable<LlmStreamEvent>;
+}
+
+// Rough English average, used when a provider does not report usage.
+export const estimateTokenCount = (text: string) => Math.ceil(text.length / 4);
@@ -0,0 +1,46 @@
+import type { ChatMessage, MessageFork } from '../types/chat';
+
+const withoutFork = (message: ChatMessage): ChatMessage => {
+  const next = { ...message };
+  delete next.alternatives;
+  delete next.variantIndex;
+  return next;
+};
+
+export const getVariantCount = (message: ChatMessage) => (message.alternatives?.length ?? 0) + 1;
+
+export const getFork = (message: ChatMessage | undefined): MessageFork | undefined =>
+  message?.alternatives ? { alternatives: message.alternatives, variantIndex: message.variantIndex ?? 0 } : undefined;
+
+/** Every version of the thread from `index` on, in navigation order, with the visible one at its `variantIndex`. */
+const collectVersions = (messages: ChatMessage[], index: number) => {
+  const fork = messages[index];
+  const alternatives = fork.alternatives ?? [];
+  const position = fork.variantIndex ?? 0;
+  const current = [withoutFork(fork), ...messages.slice(index + 1)];
+  return [...alternatives.slice(0, position), current, ...alternatives.slice(position)];
+};
+
+/** Shows version `target` of the thread from the message at `index`, keeping the others as alternatives. */
+export const switchVariant = (messages: ChatMessage[], index: number, target: number) => {
+  const versions = collectVersions(messages, index);
+  if (target < 0 || target >= versions.length || target === (messages[index].variantIndex ?? 0)) return messages;
+
+  const [first, ...rest] = versions[target];
+  return [
+    ...messages.slice(0, index),
+    { ...first, alternatives: versions.filter((_, position) => position !== target), variantIndex: target },
+    ...rest,
+  ];
+};
+
+/**
+ * Prepares a new version of the thread at `index`. The current message and
+ * everything after it become an alternative; the caller attaches `fork` to the
+ * message that replaces it, which becomes the last version.
+ */
+export const forkThread = (messages: ChatMessage[], index: number) => {
+  const versions = collectVersions(messages, index);
+  const fork: MessageFork = { alternatives: versions, variantIndex: versions.length };
+  return { baseMessages: messages.slice(0, index), fork };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ANSWER_MODES } from '../../constants/chat';
+import { retrieveKnowledge } from '../knowledge';
+import { PROMPT_TEMPLATES, renderPrompt } from '.';
+import type { FarmProfile } from '../../types/farm';
+
+const PROFILES: Record<string, FarmProfile | null> = {
+  'no farm profile': null,
+  'a manual profile': {
+    season: 'spring',
+    day: 12,
+    year: 1,
+    farmType: 'standard',
+    unlockedAreas: [],
+    skills: { farming: 2, mining: 1, foraging: 1, fishing: 0, combat: 0 },
+    completedBundles: [],
+  },
+  'an imported save profile': {
+    season: 'fall',
+    day: 3,
+    year: 3,
+    farmType: 'riverland',
+    unlockedAreas: ['greenhouse', 'bus-stop', 'skull-cavern'],
+    skills: { farming: 10, mining: 8, foraging: 7, fishing: 6, combat: 9 },
+    completedBundles: ['Spring Crops Bundle', 'Quality Crops Bundle', '2,500g Bundle'],
+    money: 125000,
+    friendshipHearts: { Abigail: 8, Linus: 4 },
+    museumDonations: 42,
+    shippedItems: 97,
+  },
+};
+
+const SUMMARY = 'Earlier the player asked about Spring crops and was told strawberries pay best.';
+const knowledge = retrieveKnowledge('What are Abigail loved gifts and when is the Egg Festival?');
+
+describe('renderPrompt', () => {
+  it('has knowledge to render', () => {
+    expect(knowledge.length).toBeGreaterThan(0);
+  });
+
+  describe.each(PROMPT_TEMPLATES.map((template) => [template.version, template] as const))(
+    'prompt %s',
+    (_version, template) => {
+      it.each(ANSWER_MODES.map((mode) => mode.id))('renders %s mode without context', (mode) => {
+        expect(renderPrompt(template, { summary: null, profile: null, knowledge: [], mode })).toMatchSnapshot();
+      });
+
+      it.each(Object.keys(PROFILES))('renders summary and knowledge with %s', (name) => {
+        const context = { summary: SUMMARY, profile: PROFILES[name], knowledge, mode: 'detailed' as const };
+        expect(renderPrompt(template, context)).toMatchSnapshot();
+      });
+    },
+  );
+});
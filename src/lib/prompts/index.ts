@@ -0,0 +1,82 @@
+import { DEFAULT_PROMPT_TEMPLATE, PROMPT_TEMPLATES } from './templates';
+import type { PromptContext, PromptTemplate } from './types';
+
+export { DEFAULT_PROMPT_TEMPLATE, PROMPT_TEMPLATES } from './templates';
+export type { PromptContext, PromptSection, PromptTemplate } from './types';
+
+export interface PromptSplitEntry {
+  template: PromptTemplate;
+  /** Relative share of traffic; weights don't need to add up to 100. */
+  weight: number;
+}
+
+export const getPromptTemplate = (version: string) =>
+  PROMPT_TEMPLATES.find((template) => template.version === version);
+
+/**
+ * Parses a traffic split like `v1:90,v2:10`. Unknown versions and bad
+ * weights are skipped with a warning; an empty result falls back to the
+ * default version alone.
+ */
+export const parsePromptSplit = (value: string | undefined): PromptSplitEntry[] => {
+  const entries = (value ?? '')
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .flatMap((part) => {
+      const [version, rawWeight = '1'] = part.split(':').map((piece) => piece.trim());
+      const template = getPromptTemplate(version);
+      const weight = Number(rawWeight);
+      if (!template || !Number.isFinite(weight) || weight <= 0) {
+        console.warn(`Ignoring prompt variant "${part}" in PROMPT_VARIANTS.`);
+        return [];
+      }
+      return [{ template, weight }];
+    });
+
+  return entries.length > 0 ? entries : [{ template: DEFAULT_PROMPT_TEMPLATE, weight: 1 }];
+};
+
+let cachedSplit: { source: string | undefined; entries: PromptSplitEntry[] } | null = null;
+
+/** The split configured by `PROMPT_VARIANTS`, parsed once per distinct value. */
+export const getPromptSplit = () => {
+  const source = process.env.PROMPT_VARIANTS;
+  if (!cachedSplit || cachedSplit.source !== source) {
+    cachedSplit = { source, entries: parsePromptSplit(source) };
+  }
+  return cachedSplit.entries;
+};
+
+// FNV-1a: a fast, stable hash so the same client lands in the same bucket on every server.
+const hashToUnitInterval = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+/**
+ * Picks the template for a client. Assignment is sticky: the same
+ * identifier gets the same variant for as long as the split is unchanged.
+ */
+export const selectPromptTemplate = (identifier: string, split: PromptSplitEntry[] = getPromptSplit()) => {
+  const totalWeight = split.reduce((sum, entry) => sum + entry.weight, 0);
+  let point = hashToUnitInterval(identifier) * totalWeight;
+  for (const entry of split) {
+    point -= entry.weight;
+    if (point < 0) return entry.template;
+  }
+  return split[split.length - 1].template;
+};
+
+/** Renders each section as a Markdown heading and body, skipping sections with nothing to say. */
+export const renderPrompt = (template: PromptTemplate, context: PromptContext) =>
+  template.sections
+    .flatMap((section) => {
+      const body = section.render(context);
+      return body === null ? [] : [`# ${section.title}\n${body}`];
+    })
+    .join('\n\n');
@@ -0,0 +1,56 @@
+import {
+  answerModeSection,
+  answerStructureSection,
+  calculatorsSection,
+  conversationSection,
+  earlierContextSection,
+  formattingSection,
+  personaSection,
+  playerFarmSection,
+  referenceFactsSection,
+  responseStyleSection,
+  securitySection,
+} from './sections';
+import { bulletSection, type PromptSection, type PromptTemplate } from './types';
+
+/** Replaces the section with the same id, keeping its position. */
+const withSection = (sections: PromptSection[], replacement: PromptSection) =>
+  sections.map((section) => (section.id === replacement.id ? replacement : section));
+
+const V1_SECTIONS: PromptSection[] = [
+  personaSection,
+  responseStyleSection,
+  formattingSection,
+  answerStructureSection,
+  answerModeSection,
+  securitySection,
+  calculatorsSection,
+  conversationSection,
+  earlierContextSection,
+  playerFarmSection,
+  referenceFactsSection,
+];
+
+/** Served when `PROMPT_VARIANTS` is unset or names no known version. */
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  version: 'v1',
+  description: 'Original Stardew Sage prompt.',
+  sections: V1_SECTIONS,
+};
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  DEFAULT_PROMPT_TEMPLATE,
+  {
+    version: 'v2',
+    description: 'Opens every answer with a one-line bold summary before the details.',
+    sections: withSection(
+      V1_SECTIONS,
+      bulletSection('answer-structure', 'Answer Structure', [
+        'Open with a single bold sentence that fully answers the question',
+        'Follow with the most important details or context',
+        'Add a helpful tip or related information if relevant',
+        'No lengthy introductions or conclusions needed',
+      ]),
+    ),
+  },
+];
@@ -0,0 +1,33 @@
+import type { AnswerMode } from '../../constants/chat';
+import type { KnowledgeEntry } from '../knowledge/types';
+import type { FarmProfile } from '../../types/farm';
+
+/** Everything about a request that a prompt section may render. */
+export interface PromptContext {
+  /** One-line digest of turns that no longer fit the history budget. */
+  summary: string | null;
+  profile: FarmProfile | null;
+  knowledge: KnowledgeEntry[];
+  mode: AnswerMode;
+}
+
+export interface PromptSection {
+  /** Stable name, so variants can swap one section and keep the rest. */
+  id: string;
+  title: string;
+  /** Returns the section body, or `null` to leave the section out of this prompt. */
+  render: (context: PromptContext) => string | null;
+}
+
+export interface PromptTemplate {
+  /** Recorded on every answer, its feedback and analytics. Never reuse a version for different text. */
+  version: string;
+  description: string;
+  sections: PromptSection[];
+}
+
+/** A section whose body is the same for every request, written as a bullet list. */
+export const bulletSection = (id: string, title: string, bullets: string[]): PromptSection => {
+  const body = bullets.map((bullet) => `- ${bullet}`).join('\n');
+  return { id, title, render: () => body };
+};
@@ -0,0 +1,42 @@
+import type { RateLimitResult } from './rate-limit';
+
+export interface RateLimitQuota {
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds when the quota frees up again. */
+  resetAt: number;
+}
+
+const readNumberHeader = (headers: Headers, name: string) => {
+  const value = headers.get(name);
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Builds the IETF draft `RateLimit-*` headers (reset in delta-seconds) plus
+ * `Retry-After` when the request was rejected.
+ */
+export const buildRateLimitHeaders = (result: RateLimitResult, now: number = Date.now()) => {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': Math.max(0, Math.ceil((result.reset - now) / 1000)).toString(),
+  };
+
+  if (!result.success) {
+    headers['Retry-After'] = Math.ceil(result.retryAfter / 1000).toString();
+  }
+
+  return headers;
+};
+
+export const parseRateLimitHeaders = (headers: Headers, now: number = Date.now()): RateLimitQuota | null => {
+  const limit = readNumberHeader(headers, 'RateLimit-Limit');
+  const remaining = readNumberHeader(headers, 'RateLimit-Remaining');
+  const resetSeconds = readNumberHeader(headers, 'Retry-After') ?? readNumberHeader(headers, 'RateLimit-Reset');
+  if (limit === null || remaining === null || resetSeconds === null) return null;
+
+  return { limit, remaining, resetAt: now + resetSeconds * 1000 };
+};
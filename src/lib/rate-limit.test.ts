@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { checkRateLimit, refundRateLimit } from './rate-limit';
+import { createMemoryStore } from './store';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('refundRateLimit', () => {
+  it('gives the slot back to the bucket that was charged after the window rolls over', async () => {
+    const store = createMemoryStore(() => 0);
+    const chargedAt = MINUTE_MS - 1;
+    await checkRateLimit('client', 'anonymous', store, chargedAt);
+
+    await refundRateLimit('client', chargedAt, 'anonymous', store, MINUTE_MS + 1);
+
+    expect(await store.get('chat:rl:minute:client:0')).toBe(0);
+    expect(await store.get('chat:rl:minute:client:1')).toBeNull();
+    expect(await store.get('chat:rl:day:client:0')).toBe(0);
+  });
+
+  it('does not refund a bucket below zero', async () => {
+    const store = createMemoryStore(() => 0);
+    await refundRateLimit('client', 0, 'anonymous', store, 0);
+    expect(await store.get('chat:rl:minute:client:0')).toBeNull();
+  });
+});
@@ -1,49 +1,276 @@
-import { redis } from './redis';
+import { getStore, type KeyValueStore } from './store';
 
-const WINDOW_SECONDS = 60;
-const MAX_REQUESTS_PER_WINDOW = 5;
-const DAILY_WINDOW_SECONDS = 60 * 60 * 24;
-const MAX_REQUESTS_PER_DAY = 100;
+export type ClientTier = 'anonymous' | 'authenticated' | 'allowlisted';
 
-type RateLimitResult =
-  | { success: true }
-  | { success: false; retryAfter: number };
+export interface TierLimits {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  outputTokensPerDay: number;
+}
 
-const getIdentifiers = (identifier: string) => {
-  const nowSeconds = Math.floor(Date.now() / 1000);
-  const currentWindow = Math.floor(nowSeconds / WINDOW_SECONDS);
-  const currentDay = new Date().toISOString().slice(0, 10);
+export const RATE_LIMIT_TIERS: Record<ClientTier, TierLimits> = {
+  anonymous: { requestsPerMinute: 5, requestsPerDay: 100, outputTokensPerDay: 60_000 },
+  authenticated: { requestsPerMinute: 10, requestsPerDay: 300, outputTokensPerDay: 200_000 },
+  allowlisted: { requestsPerMinute: 60, requestsPerDay: 5_000, outputTokensPerDay: 2_000_000 },
+};
+
+/** Endpoints that write to the store get their own request buckets, so they never use up chat quota. */
+export type RateLimitedAction = 'feedback' | 'share';
+
+export type ActionLimits = Pick<TierLimits, 'requestsPerMinute' | 'requestsPerDay'>;
+
+// Every rating and reason toggle is a request, so feedback allows short bursts.
+export const ACTION_RATE_LIMITS: Record<RateLimitedAction, Record<ClientTier, ActionLimits>> = {
+  feedback: {
+    anonymous: { requestsPerMinute: 20, requestsPerDay: 300 },
+    authenticated: { requestsPerMinute: 30, requestsPerDay: 600 },
+    allowlisted: { requestsPerMinute: 120, requestsPerDay: 5_000 },
+  },
+  // Each link stores a snapshot for 30 days, so sharing is kept tight.
+  share: {
+    anonymous: { requestsPerMinute: 3, requestsPerDay: 20 },
+    authenticated: { requestsPerMinute: 5, requestsPerDay: 50 },
+    allowlisted: { requestsPerMinute: 30, requestsPerDay: 500 },
+  },
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export type RateLimitWindow = 'minute' | 'day' | 'tokens';
+
+export interface RateLimitResult {
+  success: boolean;
+  /** Quota of the most constrained window. */
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds when the constrained window frees up again. */
+  reset: number;
+  /** Milliseconds to wait before retrying; 0 when the request was allowed. */
+  retryAfter: number;
+  /** Which window rejected the request. */
+  blockedBy?: RateLimitWindow;
+}
+
+interface WindowState {
+  window: RateLimitWindow;
+  limit: number;
+  used: number;
+  remaining: number;
+  reset: number;
+}
+
+interface SlidingWindow {
+  /** Key namespace: `chat` for questions, or the action name. */
+  scope: 'chat' | RateLimitedAction;
+  window: RateLimitWindow;
+  durationMs: number;
+  limit: number;
+}
+
+interface WindowSnapshot extends SlidingWindow {
+  currentKey: string;
+  /** Milliseconds since the current fixed bucket started. */
+  elapsed: number;
+  current: number;
+  previous: number;
+}
+
+const getBucketKeys = (scope: SlidingWindow['scope'], window: RateLimitWindow, identifier: string, bucket: number) => ({
+  currentKey: `${scope}:rl:${window}:${identifier}:${bucket}`,
+  previousKey: `${scope}:rl:${window}:${identifier}:${bucket - 1}`,
+});
+
+/**
+ * Sliding-window counter: the previous fixed bucket is weighted by how much of
+ * it still overlaps the trailing window, which approximates a true sliding log
+ * without storing every request.
+ */
+const readWindow = async (
+  store: KeyValueStore,
+  identifier: string,
+  { scope, window, durationMs, limit }: SlidingWindow,
+  now: number,
+): Promise<WindowSnapshot> => {
+  const bucket = Math.floor(now / durationMs);
+  const elapsed = now - bucket * durationMs;
+  const { currentKey, previousKey } = getBucketKeys(scope, window, identifier, bucket);
+  const [current, previous] = await Promise.all([store.get<number>(currentKey), store.get<number>(previousKey)]);
 
   return {
-    minuteKey: `chat:rl:minute:${identifier}:${currentWindow}`,
-    dayKey: `chat:rl:day:${identifier}:${currentDay}`,
-  } as const;
+    currentKey,
+    elapsed,
+    current: Number(current ?? 0),
+    previous: Number(previous ?? 0),
+    scope,
+    durationMs,
+    limit,
+    window,
+  };
 };
 
-export const checkRateLimit = async (identifier: string): Promise<RateLimitResult> => {
-  const { minuteKey, dayKey } = getIdentifiers(identifier);
+const estimateUsage = ({ current, previous, elapsed, durationMs }: WindowSnapshot) =>
+  previous * ((durationMs - elapsed) / durationMs) + current;
+
+/**
+ * Milliseconds until the estimated usage drops low enough to admit `cost` more
+ * units. If the current bucket alone is over the limit, the wait spans into
+ * the next bucket, where today's count becomes the decaying "previous" one.
+ */
+const getWaitMs = ({ current, previous, elapsed, durationMs, limit }: WindowSnapshot, cost: number) => {
+  const allowance = limit - cost;
+  if (previous * ((durationMs - elapsed) / durationMs) + current <= allowance) return 0;
 
-  const minuteCount = await redis.incr(minuteKey);
-  if (minuteCount === 1) {
-    await redis.expire(minuteKey, WINDOW_SECONDS);
+  if (current <= allowance) {
+    return Math.ceil(durationMs - elapsed - ((allowance - current) * durationMs) / previous);
   }
 
-  if (minuteCount > MAX_REQUESTS_PER_WINDOW) {
-    return { success: false, retryAfter: WINDOW_SECONDS };
+  const intoNextBucket = allowance <= 0 ? durationMs : durationMs * (1 - allowance / current);
+  return Math.ceil(durationMs - elapsed + intoNextBucket);
+};
+
+const toWindowState = (snapshot: WindowSnapshot, now: number): WindowState => {
+  const used = estimateUsage(snapshot);
+  const remaining = Math.max(0, Math.floor(snapshot.limit - used));
+  // With quota left, "reset" is when the previous bucket has fully decayed.
+  const reset = remaining > 0 ? now + snapshot.durationMs - snapshot.elapsed : now + getWaitMs(snapshot, 1);
+  return { window: snapshot.window, limit: snapshot.limit, used, remaining, reset };
+};
+
+const consume = async (store: KeyValueStore, snapshot: WindowSnapshot, cost: number): Promise<WindowSnapshot> => {
+  const current = await store.incrBy(snapshot.currentKey, cost);
+  if (current === cost) {
+    // Keep the bucket around while it still counts as "previous" for the next one.
+    await store.expire(snapshot.currentKey, Math.ceil((snapshot.durationMs * 2) / 1000));
   }
+  return { ...snapshot, current };
+};
+
+const blocked = (state: WindowState, now: number): RateLimitResult => ({
+  success: false,
+  limit: state.limit,
+  remaining: 0,
+  reset: state.reset,
+  retryAfter: Math.max(0, state.reset - now),
+  blockedBy: state.window,
+});
+
+const allowed = (states: WindowState[]): RateLimitResult => {
+  const constrained = states.reduce((tightest, state) =>
+    state.remaining < tightest.remaining ? state : tightest,
+  );
+
+  return {
+    success: true,
+    limit: constrained.limit,
+    remaining: constrained.remaining,
+    reset: constrained.reset,
+    retryAfter: 0,
+  };
+};
+
+const getRequestWindows = (scope: SlidingWindow['scope'], limits: ActionLimits): SlidingWindow[] => [
+  { scope, window: 'minute', durationMs: MINUTE_MS, limit: limits.requestsPerMinute },
+  { scope, window: 'day', durationMs: DAY_MS, limit: limits.requestsPerDay },
+];
+
+const getTokenWindow = (limits: TierLimits): SlidingWindow => ({
+  scope: 'chat',
+  window: 'tokens',
+  durationMs: DAY_MS,
+  limit: limits.outputTokensPerDay,
+});
+
+const consumeRequestWindows = async (
+  store: KeyValueStore,
+  identifier: string,
+  windows: SlidingWindow[],
+  now: number,
+): Promise<RateLimitResult> => {
+  const states: WindowState[] = [];
+  const consumed: WindowSnapshot[] = [];
+  for (const window of windows) {
+    // Charge first and check afterwards so concurrent requests cannot both slip under the limit.
+    const charged = await consume(store, await readWindow(store, identifier, window, now), 1);
+    consumed.push(charged);
 
-  const dayCount = await redis.incr(dayKey);
-  if (dayCount === 1) {
-    await redis.expire(dayKey, DAILY_WINDOW_SECONDS);
+    if (estimateUsage(charged) > charged.limit) {
+      // Roll back every window charged so a rejected request costs nothing.
+      await Promise.all(consumed.map((snapshot) => store.incrBy(snapshot.currentKey, -1)));
+      return blocked(toWindowState({ ...charged, current: charged.current - 1 }, now), now);
+    }
+
+    states.push(toWindowState(charged, now));
   }
 
-  if (minuteCount > MAX_REQUESTS_PER_WINDOW) {
-    return { success: false, retryAfter: WINDOW_SECONDS };
+  return allowed(states);
+};
+
+export const checkRateLimit = async (
+  identifier: string,
+  tier: ClientTier = 'anonymous',
+  store: KeyValueStore = getStore(),
+  now: number = Date.now(),
+): Promise<RateLimitResult> => {
+  const limits = RATE_LIMIT_TIERS[tier];
+
+  // The token budget is only charged after generation, so it is checked without consuming.
+  const tokenState = toWindowState(await readWindow(store, identifier, getTokenWindow(limits), now), now);
+  if (tokenState.remaining <= 0) {
+    return blocked(tokenState, now);
   }
 
-  if (dayCount > MAX_REQUESTS_PER_DAY) {
-    return { success: false, retryAfter: DAILY_WINDOW_SECONDS };
+  return consumeRequestWindows(store, identifier, getRequestWindows('chat', limits), now);
+};
+
+/**
+ * Gives back the request slot an allowed `checkRateLimit()` call charged, for
+ * requests that turned out to cost nothing (answers served from the cache).
+ * `chargedAt` is the `now` that call used, so the refund lands in the buckets
+ * that were charged even if a window has rolled over since. Returns the quota
+ * as it stands afterwards.
+ */
+export const refundRateLimit = async (
+  identifier: string,
+  chargedAt: number,
+  tier: ClientTier = 'anonymous',
+  store: KeyValueStore = getStore(),
+  now: number = Date.now(),
+): Promise<RateLimitResult> => {
+  const states: WindowState[] = [];
+  for (const window of getRequestWindows('chat', RATE_LIMIT_TIERS[tier])) {
+    const { currentKey: chargedKey } = getBucketKeys(
+      window.scope,
+      window.window,
+      identifier,
+      Math.floor(chargedAt / window.durationMs),
+    );
+    if (Number((await store.get<number>(chargedKey)) ?? 0) > 0) {
+      await store.incrBy(chargedKey, -1);
+    }
+    states.push(toWindowState(await readWindow(store, identifier, window, now), now));
   }
+  return allowed(states);
+};
+
+/** Charges one request against an action's own minute and day buckets. */
+export const checkActionRateLimit = async (
+  action: RateLimitedAction,
+  identifier: string,
+  tier: ClientTier = 'anonymous',
+  store: KeyValueStore = getStore(),
+  now: number = Date.now(),
+): Promise<RateLimitResult> =>
+  consumeRequestWindows(store, identifier, getRequestWindows(action, ACTION_RATE_LIMITS[action][tier]), now);
 
-  return { success: true };
+export const recordTokenUsage = async (
+  identifier: string,
+  outputTokens: number,
+  tier: ClientTier = 'anonymous',
+  store: KeyValueStore = getStore(),
+  now: number = Date.now(),
+) => {
+  if (outputTokens <= 0) return;
+  const tokens = getTokenWindow(RATE_LIMIT_TIERS[tier]);
+  await consume(store, await readWindow(store, identifier, tokens, now), outputTokens);
 };
@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { MAX_FRIENDSHIPS, MAX_MONEY, MAX_YEAR, MUSEUM_ITEM_COUNT } from '../constants/farm';
+import { parseFarmProfile } from './farm-profile';
+import { parseSaveFile, type SaveImportError } from './save-import';
+
+const readFixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', 'saves', name), 'utf8');
+
+const FARM_SAVE = readFixture('Farm_123456789.xml');
+
+const expectImportError = (xml: string, reason: SaveImportError['reason']) =>
+  expect(() => parseSaveFile(xml)).toThrow(expect.objectContaining({ name: 'SaveImportError', reason }));
+
+describe('parseSaveFile', () => {
+  it('reads a full save into a farm profile', () => {
+    expect(parseSaveFile(FARM_SAVE)).toEqual({
+      farmerName: 'Robin Hood',
+      farmName: 'Sherwood',
+      profile: {
+        season: 'summer',
+        day: 12,
+        year: 2,
+        farmType: 'riverland',
+        unlockedAreas: ['greenhouse', 'quarry', 'skull-cavern', 'railroad'],
+        skills: { farming: 7, mining: 5, foraging: 4, fishing: 3, combat: 10 },
+        completedBundles: [
+          'Spring Foraging Bundle',
+          'Summer Foraging Bundle',
+          'Fall Foraging Bundle',
+          'Winter Foraging Bundle',
+          'Construction Bundle',
+          'Exotic Foraging Bundle',
+          'Spring Crops Bundle',
+          'Summer Crops Bundle',
+          'Fall Crops Bundle',
+          'Quality Crops Bundle',
+          'Animal Bundle',
+          'Artisan Bundle',
+          'River Fish Bundle',
+        ],
+        money: 48250,
+        friendshipHearts: { Abigail: 8, Linus: 3, Pierre: 0 },
+        museumDonations: 2,
+        shippedItems: 3,
+      },
+    });
+  });
+
+  it('points the player at the main save when given SaveGameInfo', () => {
+    expectImportError(readFixture('SaveGameInfo.xml'), 'UNSUPPORTED');
+  });
+
+  it('rejects a truncated file as corrupt', () => {
+    expectImportError(readFixture('corrupt.xml'), 'CORRUPT');
+  });
+
+  it('rejects a save without a date as corrupt', () => {
+    expectImportError(readFixture('missing-date.xml'), 'CORRUPT');
+  });
+
+  it('rejects XML that is not a save', () => {
+    expectImportError('<?xml version="1.0"?><Inventory><item /></Inventory>', 'UNSUPPORTED');
+  });
+
+  it('keeps a large modded save within the profile limits', () => {
+    const villagers = Array.from(
+      { length: MAX_FRIENDSHIPS + 5 },
+      (_, index) =>
+        `<item><key><string>Villager ${index}</string></key><value><Friendship><Points>${index * 50}</Points></Friendship></value></item>`,
+    );
+    const longName = `<item><key><string>${'N'.repeat(41)}</string></key><value><Friendship><Points>3500</Points></Friendship></value></item>`;
+    const museumPieces = Array.from(
+      { length: MUSEUM_ITEM_COUNT + 10 },
+      (_, index) => `<item><key><Vector2><X>${index}</X><Y>5</Y></Vector2></key><value><int>${index}</int></value></item>`,
+    );
+    const xml = FARM_SAVE.replace('<year>2</year>', '<year>140</year>')
+      .replace('<money>48250</money>', '<money>2500000000</money>')
+      .replace('</friendshipData>', `${villagers.join('')}${longName}</friendshipData>`)
+      .replace('</museumPieces>', `${museumPieces.join('')}</museumPieces>`);
+
+    const { profile } = parseSaveFile(xml);
+
+    expect(parseFarmProfile(profile)).toEqual(profile);
+    expect(profile.year).toBe(MAX_YEAR);
+    expect(profile.money).toBe(MAX_MONEY);
+    expect(profile.museumDonations).toBe(MUSEUM_ITEM_COUNT);
+    expect(Object.keys(profile.friendshipHearts ?? {})).toHaveLength(MAX_FRIENDSHIPS);
+    expect(profile.friendshipHearts).not.toHaveProperty('N'.repeat(41));
+    expect(profile.friendshipHearts).toMatchObject({ 'Villager 64': 12, Abigail: 8 });
+  });
+});
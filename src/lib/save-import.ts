@@ -0,0 +1,236 @@
+import {
+  COMMUNITY_CENTER_BUNDLES,
+  DAYS_PER_SEASON,
+  MAX_FRIENDSHIPS,
+  MAX_HEARTS,
+  MAX_MONEY,
+  MAX_SHIPPED_ITEMS,
+  MAX_VILLAGER_NAME_LENGTH,
+  MAX_YEAR,
+  MUSEUM_ITEM_COUNT,
+  SEASONS,
+  type CommunityCenterBundle,
+  type FarmArea,
+  type FarmType,
+  type Season,
+} from '../constants/farm';
+import type { FarmProfile } from '../types/farm';
+import { parseFarmProfile } from './farm-profile';
+
+export type SaveImportErrorReason = 'TOO_LARGE' | 'CORRUPT' | 'UNSUPPORTED';
+
+export class SaveImportError extends Error {
+  readonly reason: SaveImportErrorReason;
+
+  constructor(reason: SaveImportErrorReason, message: string) {
+    super(message);
+    this.name = 'SaveImportError';
+    this.reason = reason;
+  }
+}
+
+export interface ImportedSave {
+  farmerName: string;
+  farmName: string;
+  profile: FarmProfile;
+}
+
+/** Late-game saves run to tens of megabytes; anything far beyond that is not a save. */
+export const MAX_SAVE_FILE_BYTES = 50 * 1024 * 1024;
+
+const POINTS_PER_HEART = 250;
+
+// `whichFarm` indices used by the game; 7 marks a modded farm such as Meadowlands.
+const FARM_TYPES_BY_INDEX: FarmType[] = ['standard', 'riverland', 'forest', 'hilltop', 'wilderness', 'four-corners', 'beach'];
+
+const ROOM_COMPLETION_MAIL: Record<string, string> = {
+  ccCraftsRoom: 'Crafts Room',
+  ccPantry: 'Pantry',
+  ccFishTank: 'Fish Tank',
+  ccBoilerRoom: 'Boiler Room',
+  ccBulletin: 'Bulletin Board',
+  ccVault: 'Vault',
+};
+
+const KNOWN_BUNDLES = new Set<string>(COMMUNITY_CENTER_BUNDLES.flatMap((room) => room.bundles));
+
+const getChild = (parent: Element | null | undefined, name: string) =>
+  parent ? Array.from(parent.children).find((child) => child.localName === name) ?? null : null;
+
+const getChildren = (parent: Element | null | undefined, name: string) =>
+  parent ? Array.from(parent.children).filter((child) => child.localName === name) : [];
+
+const getText = (parent: Element | null | undefined, name: string) => getChild(parent, name)?.textContent?.trim() ?? '';
+
+const getInteger = (parent: Element | null | undefined, name: string) => {
+  const parsed = Number.parseInt(getText(parent, name), 10);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/** Reads a serialized `SerializableDictionary` as `[keyElement, valueElement]` pairs. */
+const getDictionaryEntries = (dictionary: Element | null) =>
+  getChildren(dictionary, 'item').map((item) => [getChild(item, 'key'), getChild(item, 'value')] as const);
+
+const clampSkill = (level: number | null) => Math.min(10, Math.max(0, level ?? 0));
+
+const clampCount = (value: number | null, max: number) => Math.min(max, Math.max(0, value ?? 0));
+
+/**
+ * Modded saves can list more villagers, or longer names, than a profile may
+ * carry. Over-long names are skipped and only the closest friendships are kept.
+ */
+const readFriendshipHearts = (player: Element) => {
+  const hearts: [string, number][] = [];
+  for (const [key, value] of getDictionaryEntries(getChild(player, 'friendshipData'))) {
+    const name = key?.textContent?.trim();
+    const points = getInteger(getChild(value, 'Friendship'), 'Points');
+    if (!name || name.length > MAX_VILLAGER_NAME_LENGTH || points === null) continue;
+    hearts.push([name, clampCount(Math.floor(points / POINTS_PER_HEART), MAX_HEARTS)]);
+  }
+  return Object.fromEntries(hearts.sort(([, a], [, b]) => b - a).slice(0, MAX_FRIENDSHIPS));
+};
+
+const findLocation = (saveGame: Element, type: string) =>
+  getChildren(getChild(saveGame, 'locations'), 'GameLocation').find(
+    (location) => location.getAttribute('xsi:type') === type,
+  ) ?? null;
+
+/**
+ * Bundles are stored as `bundleData` ("Room/index" -> "Name/reward/items/color/required")
+ * plus one boolean per item slot on the Community Center. A bundle is complete
+ * once enough slots are filled, or when its whole room has been restored.
+ */
+const readCompletedBundles = (saveGame: Element, mail: Set<string>) => {
+  const completed = new Set<CommunityCenterBundle>();
+
+  for (const [flag, room] of Object.entries(ROOM_COMPLETION_MAIL)) {
+    if (!mail.has(flag)) continue;
+    COMMUNITY_CENTER_BUNDLES.find((entry) => entry.room === room)?.bundles.forEach((bundle) => completed.add(bundle));
+  }
+
+  const slotsByIndex = new Map<string, boolean[]>();
+  for (const [key, value] of getDictionaryEntries(getChild(findLocation(saveGame, 'CommunityCenter'), 'bundles'))) {
+    const index = key?.textContent?.trim();
+    const slots = getChildren(getChild(value, 'ArrayOfBoolean'), 'boolean').map((slot) => slot.textContent?.trim() === 'true');
+    if (index) slotsByIndex.set(index, slots);
+  }
+
+  for (const [key, value] of getDictionaryEntries(getChild(saveGame, 'bundleData'))) {
+    const index = key?.textContent?.split('/')[1]?.trim();
+    const fields = value?.textContent?.split('/') ?? [];
+    const name = `${fields[0]?.trim()} Bundle`;
+    const slots = index ? slotsByIndex.get(index) : undefined;
+    if (!KNOWN_BUNDLES.has(name) || !slots) continue;
+
+    const itemCount = (fields[2]?.trim().split(/\s+/).length ?? 0) / 3;
+    const required = Number.parseInt(fields[4] ?? '', 10) || itemCount;
+    if (slots.slice(0, itemCount).filter(Boolean).length >= required) {
+      completed.add(name as CommunityCenterBundle);
+    }
+  }
+
+  return [...completed];
+};
+
+const readUnlockedAreas = (player: Element, mail: Set<string>, season: Season, year: number, day: number) => {
+  const areas = new Set<FarmArea>();
+  const hasEither = (...flags: string[]) => flags.some((flag) => mail.has(flag));
+
+  if (hasEither('ccPantry', 'jojaPantry')) areas.add('greenhouse');
+  if (hasEither('ccVault', 'jojaVault')) areas.add('bus-stop');
+  if (hasEither('ccCraftsRoom', 'jojaCraftsRoom')) areas.add('quarry');
+  if (hasEither('willyBoatFixed')) areas.add('ginger-island');
+  if (getText(player, 'hasSkullKey') === 'true') areas.add('skull-cavern');
+  if (getText(player, 'hasRustyKey') === 'true') areas.add('sewers');
+
+  // The railroad opens after the earthquake on Summer 3 of the first year.
+  const seasonIndex = SEASONS.indexOf(season);
+  if (year > 1 || seasonIndex > 1 || (seasonIndex === 1 && day >= 3)) areas.add('railroad');
+
+  return [...areas];
+};
+
+const readFarmType = (saveGame: Element): FarmType => {
+  const index = getInteger(saveGame, 'whichFarm') ?? 0;
+  if (index === 7 && /meadowlands/i.test(getText(saveGame, 'whichModFarm'))) return 'meadowlands';
+  return FARM_TYPES_BY_INDEX[index] ?? 'standard';
+};
+
+/**
+ * Parses the main Stardew Valley save file (the one named like `Farm_123456789`,
+ * not `SaveGameInfo`) into a farm profile. Runs entirely in the browser; the
+ * file is never uploaded.
+ */
+export const parseSaveFile = (xml: string): ImportedSave => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new SaveImportError('CORRUPT', "That file isn't valid XML. It may be damaged or not a Stardew Valley save.");
+  }
+
+  const root = document.documentElement;
+  if (root.localName === 'Farmer') {
+    throw new SaveImportError(
+      'UNSUPPORTED',
+      'That looks like the SaveGameInfo file. Pick the other file in the save folder, named like Farm_123456789.',
+    );
+  }
+  if (root.localName !== 'SaveGame') {
+    throw new SaveImportError('UNSUPPORTED', "That file isn't a Stardew Valley save.");
+  }
+
+  const player = getChild(root, 'player');
+  const season = getText(root, 'currentSeason').toLowerCase() as Season;
+  const day = getInteger(root, 'dayOfMonth');
+  const year = getInteger(root, 'year');
+  if (
+    !player ||
+    !SEASONS.includes(season) ||
+    day === null ||
+    year === null ||
+    day < 1 ||
+    day > DAYS_PER_SEASON ||
+    year < 1
+  ) {
+    throw new SaveImportError('CORRUPT', 'The save is missing its farmer or date. It may be from an unsupported game version.');
+  }
+
+  const mail = new Set(getChildren(getChild(player, 'mailReceived'), 'string').map((entry) => entry.textContent?.trim() ?? ''));
+
+  // Profiles stop at year 99; later years play the same, so the advice doesn't change.
+  const profile = parseFarmProfile({
+    season,
+    day,
+    year: Math.min(year, MAX_YEAR),
+    farmType: readFarmType(root),
+    unlockedAreas: readUnlockedAreas(player, mail, season, year, day),
+    skills: {
+      farming: clampSkill(getInteger(player, 'farmingLevel')),
+      mining: clampSkill(getInteger(player, 'miningLevel')),
+      foraging: clampSkill(getInteger(player, 'foragingLevel')),
+      fishing: clampSkill(getInteger(player, 'fishingLevel')),
+      combat: clampSkill(getInteger(player, 'combatLevel')),
+    },
+    completedBundles: readCompletedBundles(root, mail),
+    money: clampCount(getInteger(player, 'money'), MAX_MONEY),
+    friendshipHearts: readFriendshipHearts(player),
+    museumDonations: clampCount(
+      getChildren(getChild(findLocation(root, 'LibraryMuseum'), 'museumPieces'), 'item').length,
+      MUSEUM_ITEM_COUNT,
+    ),
+    shippedItems: clampCount(getChildren(getChild(player, 'basicShipped'), 'item').length, MAX_SHIPPED_ITEMS),
+  });
+  // Everything above is clamped, so this only trips if the two modules drift apart.
+  if (!profile) {
+    throw new SaveImportError('UNSUPPORTED', "This save has values Stardew Sage can't use yet. Please fill in your farm by hand.");
+  }
+
+  return { farmerName: getText(player, 'name'), farmName: getText(player, 'farmName'), profile };
+};
+
+/** Reads a user-selected save file and parses it, enforcing the size limit first. */
+export const importSaveFile = async (file: File): Promise<ImportedSave> => {
+  if (file.size > MAX_SAVE_FILE_BYTES) {
+    throw new SaveImportError('TOO_LARGE', "That file is too large to be a Stardew Valley save.");
+  }
+  return parseSaveFile(await file.text());
+};
@@ -0,0 +1,152 @@
+import { SEASONS } from '../constants/farm';
+import {
+  ACTIVITY_TAG_KEYWORDS,
+  MAX_TAG_LENGTH,
+  MAX_TIP_NOTE_LENGTH,
+  MAX_TIP_TAGS,
+  TIP_TOMBSTONE_TTL_MS,
+  type TipSortOrder,
+} from '../constants/tips';
+import { reviveCalendar } from './calendar';
+import { reviveCitations } from './citations';
+import { VILLAGERS } from './knowledge/data/villagers';
+import type { SavedTip, SavedTipsSnapshot, TipTombstones } from '../types/tips';
+
+export const normalizeTag = (value: string) =>
+  value
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9'-]/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (text: string, keyword: string) => new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i').test(text);
+
+/** Season, villager and activity tags for whatever the text mentions, in that order. */
+export const suggestTipTags = (text: string) => {
+  const seasons = SEASONS.filter((season) => mentions(text, season));
+  const villagers = VILLAGERS.filter((villager) => mentions(text, villager.name)).map((villager) =>
+    normalizeTag(villager.name),
+  );
+  const activities = Object.entries(ACTIVITY_TAG_KEYWORDS)
+    .filter(([, keywords]) => keywords.some((keyword) => mentions(text, keyword)))
+    .map(([tag]) => tag);
+
+  return [...new Set([...seasons, ...villagers, ...activities])].slice(0, MAX_TIP_TAGS);
+};
+
+export const sanitizeTags = (tags: string[]) =>
+  [...new Set(tags.map(normalizeTag).filter(Boolean))].slice(0, MAX_TIP_TAGS);
+
+/**
+ * Validates one stored tip and fills in fields added since it was saved.
+ * Tips from before tags existed get the tags that would be suggested today.
+ */
+export const reviveSavedTip = (value: unknown): SavedTip | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { id, content, question, timestamp, savedAt, citations, calendar, tags, note, pinned, updatedAt } =
+    value as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof content !== 'string' || !content.trim()) return null;
+
+  const validQuestion = typeof question === 'string' && question.trim() ? question : undefined;
+  return {
+    id,
+    content,
+    question: validQuestion,
+    timestamp: typeof timestamp === 'string' ? timestamp : null,
+    savedAt: typeof savedAt === 'string' ? savedAt : new Date(0).toISOString(),
+    citations: reviveCitations(citations),
+    calendar: reviveCalendar(calendar),
+    tags: Array.isArray(tags)
+      ? sanitizeTags(tags.filter((tag): tag is string => typeof tag === 'string'))
+      : suggestTipTags(`${validQuestion ?? ''}\n${content}`),
+    note: typeof note === 'string' && note.trim() ? note.slice(0, MAX_TIP_NOTE_LENGTH) : undefined,
+    pinned: pinned === true ? true : undefined,
+    updatedAt: typeof updatedAt === 'string' ? updatedAt : undefined,
+  };
+};
+
+export const reviveSavedTips = (values: unknown[]) =>
+  values.map(reviveSavedTip).filter((tip): tip is SavedTip => tip !== null);
+
+export const reviveTipTombstones = (value: unknown): TipTombstones =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? Object.fromEntries(
+        Object.entries(value).filter(
+          (entry): entry is [string, string] => typeof entry[1] === 'string' && !Number.isNaN(Date.parse(entry[1])),
+        ),
+      )
+    : {};
+
+const getTipVersion = (tip: SavedTip) => tip.updatedAt ?? tip.savedAt;
+
+// Same-millisecond edits fall back to comparing the tips themselves, so every tab picks the same one.
+const isNewerTip = (tip: SavedTip, other: SavedTip) => {
+  const order = getTipVersion(tip).localeCompare(getTipVersion(other));
+  return order === 0 ? JSON.stringify(tip) > JSON.stringify(other) : order > 0;
+};
+
+/**
+ * Combines two copies of the saved tips, e.g. this tab's and another tab's.
+ * The newer edit of a tip wins, and a removal wins over any edit made before
+ * it. The result does not depend on argument order, so tabs settle on the
+ * same list and stop writing once they agree.
+ */
+export const mergeSavedTipSnapshots = (
+  a: SavedTipsSnapshot,
+  b: SavedTipsSnapshot,
+  now = Date.now(),
+): SavedTipsSnapshot => {
+  const cutoff = new Date(now - TIP_TOMBSTONE_TTL_MS).toISOString();
+  const removed: TipTombstones = {};
+  for (const [id, removedAt] of [...Object.entries(a.removed), ...Object.entries(b.removed)]) {
+    if (removedAt >= cutoff && (!removed[id] || removedAt > removed[id])) removed[id] = removedAt;
+  }
+
+  const tipsById = new Map<string, SavedTip>();
+  for (const tip of [...a.tips, ...b.tips]) {
+    const existing = tipsById.get(tip.id);
+    if (!existing || isNewerTip(tip, existing)) tipsById.set(tip.id, tip);
+  }
+
+  const tips = [...tipsById.values()]
+    .filter((tip) => !removed[tip.id] || removed[tip.id] < getTipVersion(tip))
+    .sort((x, y) => y.savedAt.localeCompare(x.savedAt) || x.id.localeCompare(y.id));
+  const sortedRemoved = Object.fromEntries(Object.entries(removed).sort(([x], [y]) => x.localeCompare(y)));
+  return { tips, removed: sortedRemoved };
+};
+
+/** Every tag in use with how many tips carry it, most used first. */
+export const countTipTags = (tips: SavedTip[]) => {
+  const counts = new Map<string, number>();
+  tips.forEach((tip) => tip.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts].sort(([tagA, countA], [tagB, countB]) => countB - countA || tagA.localeCompare(tagB));
+};
+
+interface TipFilter {
+  query: string;
+  /** A tip must carry every selected tag. */
+  tags: string[];
+  sort: TipSortOrder;
+}
+
+const getSortLabel = (tip: SavedTip) => (tip.question ?? tip.content).trim().toLowerCase();
+
+/** Pinned tips always come first; the sort order applies within pinned and unpinned tips. */
+export const filterSavedTips = (tips: SavedTip[], { query, tags, sort }: TipFilter) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matching = tips.filter((tip) => {
+    if (!tags.every((tag) => tip.tags.includes(tag))) return false;
+    const haystack = [tip.content, tip.question, tip.note, ...tip.tags].join('\n').toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+
+  return matching.sort((a, b) => {
+    if (Boolean(a.pinned) !== Boolean(b.pinned)) return a.pinned ? -1 : 1;
+    if (sort === 'alphabetical') return getSortLabel(a).localeCompare(getSortLabel(b));
+    const order = a.savedAt.localeCompare(b.savedAt);
+    return sort === 'oldest' ? order : -order;
+  });
+};
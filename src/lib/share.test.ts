@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ChatApiError } from './api-errors';
+import { createShare, isShareId, parseShareRequest } from './share';
+import { createMemoryStore } from './store';
+
+const question = { role: 'user', content: 'Best crops for Spring?' };
+
+describe('parseShareRequest', () => {
+  it('caps the lists and labels stored with each answer', () => {
+    const answer = {
+      role: 'assistant',
+      content: 'Strawberries.',
+      citations: Array.from({ length: 80 }, (_, index) => ({
+        id: `crop-${index}`,
+        type: 'crop',
+        title: 'T'.repeat(5000),
+        url: 'https://stardewvalleywiki.com/Strawberry',
+      })),
+      toolInvocations: Array.from({ length: 80 }, (_, index) => ({
+        id: `call-${index}`,
+        name: 'calculate_crop_profit',
+        label: 'Crop profit calculator',
+        summary: 'S'.repeat(5000),
+      })),
+      calendar: {
+        season: 'spring',
+        events: Array.from({ length: 80 }, () => ({ day: 13, season: 'spring', type: 'festival', label: 'L'.repeat(5000) })),
+      },
+      refusal: { reason: 'off-topic', message: 'R'.repeat(5000) },
+    };
+
+    const [, shared] = parseShareRequest({ title: 'Crops', messages: [question, answer] })?.messages ?? [];
+
+    expect(shared.citations).toHaveLength(50);
+    expect(shared.citations?.[0].title).toHaveLength(200);
+    expect(shared.toolInvocations).toHaveLength(50);
+    expect(shared.toolInvocations?.[0].summary).toHaveLength(200);
+    expect(shared.calendar?.events).toHaveLength(50);
+    expect(shared.calendar?.events[0].label).toHaveLength(200);
+    expect(shared.refusal?.message).toHaveLength(1000);
+  });
+
+  it('drops citations with oversized URLs', () => {
+    const answer = {
+      role: 'assistant',
+      content: 'Strawberries.',
+      citations: [{ id: 'crop', type: 'crop', title: 'Strawberry', url: `https://example.com/${'a'.repeat(1000)}` }],
+    };
+    expect(parseShareRequest({ messages: [question, answer] })?.messages[1].citations).toEqual([]);
+  });
+
+  it('refuses too many messages before reviving them', () => {
+    const messages = Array.from({ length: 101 }, () => question);
+    expect(() => parseShareRequest({ messages })).toThrow(ChatApiError);
+  });
+
+  it('measures the snapshot as stored, not just the message text', () => {
+    const answer = {
+      role: 'assistant',
+      content: 'Strawberries.',
+      toolInvocations: Array.from({ length: 50 }, (_, index) => ({
+        id: `call-${index}`,
+        name: 'n'.repeat(200),
+        label: 'l'.repeat(200),
+        summary: 's'.repeat(200),
+      })),
+    };
+    const messages = [question, ...Array.from({ length: 9 }, () => answer)];
+    expect(() => parseShareRequest({ messages })).toThrow('too long to share');
+  });
+});
+
+describe('createShare', () => {
+  it('builds ids and revoke tokens from the share alphabet', async () => {
+    const store = createMemoryStore();
+    const request = parseShareRequest({ messages: [question] });
+    if (!request) throw new Error('expected a valid request');
+
+    for (let index = 0; index < 20; index += 1) {
+      const { share, revokeToken } = await createShare(request, store);
+      expect(isShareId(share.id)).toBe(true);
+      expect(revokeToken).toMatch(/^[abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789]{24}$/);
+    }
+  });
+});
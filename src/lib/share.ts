@@ -0,0 +1,215 @@
+import {
+  ANSWER_MODES,
+  REFUSAL_REASONS,
+  SHARE_LINK_TTL_DAYS,
+  type AnswerMode,
+  type RefusalReason,
+} from '../constants/chat';
+import { ChatApiError } from './api-errors';
+import { reviveCalendar } from './calendar';
+import { reviveCitations } from './citations';
+import { UNTITLED_CONVERSATION } from './conversations';
+import { getStore, type KeyValueStore } from './store';
+import type { StoredChatMessage } from '../types/conversations';
+import type { ShareRequestBody, SharedConversation } from '../types/share';
+import type { ToolInvocation } from '../types/tools';
+
+const SHARE_KEY_PREFIX = 'share:';
+const SHARE_TTL_SECONDS = SHARE_LINK_TTL_DAYS * 24 * 60 * 60;
+
+const SHARE_ID_LENGTH = 10;
+const SHARE_ID_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SHARE_ID_PATTERN = new RegExp(`^[${SHARE_ID_ALPHABET}]{${SHARE_ID_LENGTH}}$`);
+const REVOKE_TOKEN_LENGTH = 24;
+
+const MAX_SHARED_MESSAGES = 100;
+const MAX_TITLE_LENGTH = 120;
+/** Citations, tool runs and calendar events kept per message. */
+const MAX_LIST_ENTRIES = 50;
+/** Citation titles, tool labels and summaries, and calendar labels. */
+const MAX_LABEL_LENGTH = 200;
+const MAX_URL_LENGTH = 500;
+const MAX_REFUSAL_LENGTH = 1000;
+/** Roughly fifty long answers as stored; bigger snapshots are refused rather than truncated. */
+const MAX_SNAPSHOT_CHARACTERS = 250_000;
+
+interface StoredShare extends SharedConversation {
+  /** SHA-256 of the revoke token, so a leaked store dump cannot revoke links. */
+  revokeTokenHash: string;
+}
+
+// Bytes at or above the largest multiple of the alphabet length are dropped, so every character is equally likely.
+const UNBIASED_BYTE_LIMIT = 256 - (256 % SHARE_ID_ALPHABET.length);
+
+const randomString = (length: number) => {
+  let result = '';
+  while (result.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      if (byte < UNBIASED_BYTE_LIMIT && result.length < length) {
+        result += SHARE_ID_ALPHABET[byte % SHARE_ID_ALPHABET.length];
+      }
+    }
+  }
+  return result;
+};
+
+const hashToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const isShareId = (value: string) => SHARE_ID_PATTERN.test(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+const ANSWER_MODE_IDS = ANSWER_MODES.map((mode) => mode.id) as AnswerMode[];
+
+const capList = (value: unknown) => (Array.isArray(value) ? value.slice(0, MAX_LIST_ENTRIES) : value);
+
+const capLabel = (value: string) => value.slice(0, MAX_LABEL_LENGTH);
+
+const reviveToolInvocation = (value: unknown): ToolInvocation | null => {
+  if (!isRecord(value)) return null;
+  const { id, name, label, summary, isError } = value;
+  if (typeof id !== 'string' || typeof name !== 'string' || typeof label !== 'string' || typeof summary !== 'string') {
+    return null;
+  }
+  // Arguments are not shown on the page, so they are not kept.
+  return {
+    id: capLabel(id),
+    name: capLabel(name),
+    label: capLabel(label),
+    arguments: {},
+    summary: capLabel(summary),
+    isError: isError === true,
+  };
+};
+
+const reviveSharedCitations = (value: unknown) =>
+  reviveCitations(capList(value))
+    ?.filter((citation) => citation.url.length <= MAX_URL_LENGTH)
+    .map((citation) => ({ ...citation, id: capLabel(citation.id), title: capLabel(citation.title) }));
+
+const reviveSharedCalendar = (value: unknown) => {
+  const calendar = reviveCalendar(isRecord(value) ? { ...value, events: capList(value.events) } : value);
+  return calendar && { ...calendar, events: calendar.events.map((event) => ({ ...event, label: capLabel(event.label) })) };
+};
+
+const compact = <T>(values: (T | null)[]) => values.filter((value): value is T => value !== null);
+
+/**
+ * Copies only the fields a shared page shows. Feedback, cache details and
+ * earlier variants stay private, and unknown fields are dropped.
+ */
+const reviveSharedMessage = (value: unknown): StoredChatMessage | null => {
+  if (!isRecord(value)) return null;
+  const { role, content, timestamp, status, citations, toolInvocations, calendar, model, mode, refusal } = value;
+  if ((role !== 'user' && role !== 'assistant') || typeof content !== 'string' || !content.trim()) return null;
+
+  const validTimestamp = typeof timestamp === 'string' && !Number.isNaN(Date.parse(timestamp)) ? timestamp : null;
+  const validRefusal =
+    isRecord(refusal) && isOneOf<RefusalReason>(REFUSAL_REASONS, refusal.reason) && typeof refusal.message === 'string'
+      ? { reason: refusal.reason, message: refusal.message.slice(0, MAX_REFUSAL_LENGTH) }
+      : undefined;
+
+  return {
+    role,
+    content,
+    timestamp: validTimestamp,
+    status: status === 'incomplete' || status === 'streaming' ? 'incomplete' : undefined,
+    citations: reviveSharedCitations(citations),
+    toolInvocations: Array.isArray(toolInvocations)
+      ? compact(toolInvocations.slice(0, MAX_LIST_ENTRIES).map(reviveToolInvocation))
+      : undefined,
+    calendar: reviveSharedCalendar(calendar),
+    model: typeof model === 'string' ? model.slice(0, 80) : undefined,
+    mode: isOneOf(ANSWER_MODE_IDS, mode) ? mode : undefined,
+    refusal: validRefusal,
+  };
+};
+
+/**
+ * Validates an untrusted share request. Returns `null` when there is nothing
+ * worth sharing; throws `INVALID_INPUT` when the conversation is too large.
+ * Lists and labels are capped per message, and the size limit applies to the
+ * snapshot as it will be stored, not just the message text.
+ */
+export const parseShareRequest = (value: unknown): ShareRequestBody | null => {
+  if (!isRecord(value) || !Array.isArray(value.messages)) return null;
+  if (value.messages.length > MAX_SHARED_MESSAGES) {
+    throw new ChatApiError('INVALID_INPUT', `Only conversations of up to ${MAX_SHARED_MESSAGES} messages can be shared.`);
+  }
+
+  const messages = compact(value.messages.map(reviveSharedMessage));
+  if (!messages.some((message) => message.role === 'user')) return null;
+  if (JSON.stringify(messages).length > MAX_SNAPSHOT_CHARACTERS) {
+    throw new ChatApiError('INVALID_INPUT', 'This conversation is too long to share. Start a new chat and try again.');
+  }
+
+  const title = typeof value.title === 'string' ? value.title.replace(/\s+/g, ' ').trim().slice(0, MAX_TITLE_LENGTH) : '';
+  return { title: title || UNTITLED_CONVERSATION, messages };
+};
+
+/** Stores a snapshot under a new short id. The revoke token is returned once and only its hash is kept. */
+export const createShare = async (
+  request: ShareRequestBody,
+  store: KeyValueStore = getStore(),
+  now: number = Date.now(),
+): Promise<{ share: SharedConversation; revokeToken: string }> => {
+  let id = randomString(SHARE_ID_LENGTH);
+  // Collisions are vanishingly rare, but a new link must never replace someone else's.
+  for (let attempt = 0; (await store.get(`${SHARE_KEY_PREFIX}${id}`)) !== null; attempt += 1) {
+    if (attempt >= 2) throw new ChatApiError('INTERNAL_ERROR', 'Could not create a share link. Please try again.');
+    id = randomString(SHARE_ID_LENGTH);
+  }
+
+  const revokeToken = randomString(REVOKE_TOKEN_LENGTH);
+  const share: SharedConversation = {
+    id,
+    title: request.title,
+    messages: request.messages,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SHARE_TTL_SECONDS * 1000).toISOString(),
+  };
+  await store.set<StoredShare>(
+    `${SHARE_KEY_PREFIX}${id}`,
+    { ...share, revokeTokenHash: await hashToken(revokeToken) },
+    { ttlSeconds: SHARE_TTL_SECONDS },
+  );
+  return { share, revokeToken };
+};
+
+export const getShare = async (id: string, store: KeyValueStore = getStore()): Promise<SharedConversation | null> => {
+  if (!isShareId(id)) return null;
+  const stored = await store.get<StoredShare>(`${SHARE_KEY_PREFIX}${id}`);
+  if (!stored) return null;
+  const { title, messages, createdAt, expiresAt } = stored;
+  return { id, title, messages, createdAt, expiresAt };
+};
+
+/** Deletes a shared snapshot. Throws `NOT_FOUND` for unknown or expired links and `UNAUTHORIZED` for a wrong token. */
+export const revokeShare = async (id: string, revokeToken: string, store: KeyValueStore = getStore()) => {
+  const stored = isShareId(id) ? await store.get<StoredShare>(`${SHARE_KEY_PREFIX}${id}`) : null;
+  if (!stored) throw new ChatApiError('NOT_FOUND', 'That share link does not exist or has expired.');
+  if (stored.revokeTokenHash !== (await hashToken(revokeToken))) {
+    throw new ChatApiError('UNAUTHORIZED', 'Only the person who shared this conversation can revoke the link.');
+  }
+  await store.del(`${SHARE_KEY_PREFIX}${id}`);
+};
+
+const MAX_EXCERPT_LENGTH = 160;
+
+/** Plain text from the first answer, for link previews. Markdown syntax is stripped rather than rendered. */
+export const getShareExcerpt = (share: SharedConversation) => {
+  const answer = share.messages.find((message) => message.role === 'assistant' && !message.refusal);
+  const text = (answer ?? share.messages[0])?.content
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*_>#~|]/g, '')
+    .replace(/^\s*[-+]\s+/gm, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) return 'A conversation shared from Stardew Sage.';
+  return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1).trimEnd()}…` : text;
+};
@@ -0,0 +1,43 @@
+const encoder = new TextEncoder();
+
+export const encodeSseEvent = (data: unknown) => encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+
+const extractEventData = (rawEvent: string) =>
+  rawEvent
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).replace(/^ /, ''))
+    .join('\n');
+
+/**
+ * Reads a `text/event-stream` body and yields the `data` payload of each event.
+ * Used both for Gemini's `alt=sse` stream on the server and for the chat route's
+ * relay on the client.
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const data = extractEventData(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (data) yield data;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const trailing = extractEventData(buffer + decoder.decode());
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,27 @@
+import { redis } from '../redis';
+import { createMemoryStore } from './memory';
+import { createUpstashStore } from './upstash';
+import type { KeyValueStore } from './types';
+
+export type { KeyValueStore, SetOptions } from './types';
+export { createMemoryStore } from './memory';
+
+// Keep the memory store on globalThis so it survives Next.js dev hot reloads.
+const globalForStore = globalThis as typeof globalThis & { __stardewSageStore?: KeyValueStore };
+
+/**
+ * Returns the shared store: Upstash Redis when `UPSTASH_REDIS_REST_URL` and
+ * `UPSTASH_REDIS_REST_TOKEN` are set, otherwise an in-process memory store.
+ */
+export const getStore = (): KeyValueStore => {
+  if (globalForStore.__stardewSageStore) return globalForStore.__stardewSageStore;
+
+  if (redis) {
+    globalForStore.__stardewSageStore = createUpstashStore(redis);
+  } else {
+    console.warn('Upstash Redis is not configured; using the in-memory store. Limits reset when the server restarts.');
+    globalForStore.__stardewSageStore = createMemoryStore();
+  }
+
+  return globalForStore.__stardewSageStore;
+};
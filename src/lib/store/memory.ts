@@ -0,0 +1,86 @@
+import type { KeyValueStore } from './types';
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number | null;
+}
+
+const SWEEP_INTERVAL_WRITES = 500;
+
+/**
+ * In-process store for local development and tests. Values are kept as JSON
+ * strings so reads behave like Redis (no shared references), and expired keys
+ * are dropped lazily on access plus a periodic sweep on writes.
+ */
+export const createMemoryStore = (now: () => number = Date.now): KeyValueStore => {
+  const entries = new Map<string, MemoryEntry>();
+  let writesSinceSweep = 0;
+
+  const isExpired = (entry: MemoryEntry) => entry.expiresAt !== null && entry.expiresAt <= now();
+
+  const readEntry = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (isExpired(entry)) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const writeEntry = (key: string, entry: MemoryEntry) => {
+    entries.set(key, entry);
+    writesSinceSweep += 1;
+    if (writesSinceSweep < SWEEP_INTERVAL_WRITES) return;
+
+    writesSinceSweep = 0;
+    for (const [entryKey, existing] of entries) {
+      if (isExpired(existing)) entries.delete(entryKey);
+    }
+  };
+
+  return {
+    kind: 'memory',
+
+    async get<T>(key: string) {
+      const entry = readEntry(key);
+      return entry ? (JSON.parse(entry.value) as T) : null;
+    },
+
+    async mget<T>(keys: string[]) {
+      return keys.map((key) => {
+        const entry = readEntry(key);
+        return entry ? (JSON.parse(entry.value) as T) : null;
+      });
+    },
+
+    async set(key, value, options = {}) {
+      writeEntry(key, {
+        value: JSON.stringify(value),
+        expiresAt: options.ttlSeconds ? now() + options.ttlSeconds * 1000 : null,
+      });
+    },
+
+    async del(key) {
+      entries.delete(key);
+    },
+
+    async incrBy(key, amount) {
+      const entry = readEntry(key);
+      const current = entry ? Number(JSON.parse(entry.value)) : 0;
+      if (!Number.isFinite(current)) {
+        throw new Error(`Value at ${key} is not a number`);
+      }
+
+      const next = current + amount;
+      writeEntry(key, { value: JSON.stringify(next), expiresAt: entry?.expiresAt ?? null });
+      return next;
+    },
+
+    async expire(key, seconds) {
+      const entry = readEntry(key);
+      if (!entry) return;
+      entry.expiresAt = now() + seconds * 1000;
+    },
+  };
+};
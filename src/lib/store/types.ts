@@ -0,0 +1,20 @@
+export interface SetOptions {
+  /** Expire the key after this many seconds. */
+  ttlSeconds?: number;
+}
+
+/**
+ * Minimal key-value contract shared by the Upstash and in-memory backends.
+ * Values are JSON-serialisable; counters follow Redis `INCRBY` semantics and
+ * keep any TTL already set on the key.
+ */
+export interface KeyValueStore {
+  kind: 'upstash' | 'memory';
+  get: <T>(key: string) => Promise<T | null>;
+  /** Reads many keys in one round-trip; missing keys come back as `null`, in order. */
+  mget: <T>(keys: string[]) => Promise<(T | null)[]>;
+  set: <T>(key: string, value: T, options?: SetOptions) => Promise<void>;
+  del: (key: string) => Promise<void>;
+  incrBy: (key: string, amount: number) => Promise<number>;
+  expire: (key: string, seconds: number) => Promise<void>;
+}
@@ -0,0 +1,29 @@
+import type { Redis } from '@upstash/redis';
+import type { KeyValueStore } from './types';
+
+export const createUpstashStore = (client: Redis): KeyValueStore => ({
+  kind: 'upstash',
+
+  get: (key) => client.get(key),
+
+  // MGET needs at least one key.
+  mget: async <T>(keys: string[]) => (keys.length > 0 ? client.mget<(T | null)[]>(...keys) : []),
+
+  async set(key, value, options = {}) {
+    if (options.ttlSeconds) {
+      await client.set(key, value, { ex: options.ttlSeconds });
+      return;
+    }
+    await client.set(key, value);
+  },
+
+  async del(key) {
+    await client.del(key);
+  },
+
+  incrBy: (key, amount) => client.incrby(key, amount),
+
+  async expire(key, seconds) {
+    await client.expire(key, seconds);
+  },
+});
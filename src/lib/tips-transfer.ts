@@ -0,0 +1,145 @@
+import { MAX_TIPS_IMPORT_BYTES, TIPS_EXPORT_SCHEMA, TIPS_EXPORT_VERSION } from '../constants/tips';
+import { formatCalendarAsText } from './calendar';
+import { CITATION_TYPE_LABELS } from './citations';
+import { reviveSavedTip } from './saved-tips';
+import type { SavedTip, SavedTipsExport, TipImportStrategy, TipImportSummary } from '../types/tips';
+
+export type TipImportErrorReason = 'TOO_LARGE' | 'INVALID_JSON' | 'UNSUPPORTED' | 'NO_TIPS';
+
+export class TipImportError extends Error {
+  readonly reason: TipImportErrorReason;
+
+  constructor(reason: TipImportErrorReason, message: string) {
+    super(message);
+    this.name = 'TipImportError';
+    this.reason = reason;
+  }
+}
+
+export interface ParsedTipsImport {
+  tips: SavedTip[];
+  /** Entries in the file that were not valid tips. */
+  skipped: number;
+}
+
+export const serializeTipsExport = (tips: SavedTip[], exportedAt = new Date()) => {
+  const file: SavedTipsExport = {
+    schema: TIPS_EXPORT_SCHEMA,
+    version: TIPS_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    tips,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const formatTipAsMarkdown = (tip: SavedTip) => {
+  const details = [
+    tip.pinned ? 'Pinned' : null,
+    tip.tags.length > 0 ? `Tags: ${tip.tags.map((tag) => `\`${tag}\``).join(', ')}` : null,
+    `Saved ${tip.savedAt.slice(0, 10)}`,
+  ].filter(Boolean);
+
+  return [
+    `## ${tip.question ? tip.question.replace(/\s+/g, ' ') : 'Saved tip'}`,
+    `_${details.join(' · ')}_`,
+    tip.content,
+    tip.note ? tip.note.split('\n').map((line) => `> ${line}`).join('\n') : null,
+    tip.calendar ? formatCalendarAsText(tip.calendar) : null,
+    tip.citations?.length
+      ? [
+          'Sources:',
+          ...tip.citations.map(
+            (citation) => `- [${citation.title}](${citation.url}) (${CITATION_TYPE_LABELS[citation.type]})`,
+          ),
+        ].join('\n')
+      : null,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+};
+
+/** A readable copy of the tips for notes apps. It cannot be imported back. */
+export const formatTipsAsMarkdown = (tips: SavedTip[], exportedAt = new Date()) => {
+  const header = [
+    '# Stardew Sage saved tips',
+    `_Exported ${exportedAt.toISOString().slice(0, 10)} · ${tips.length} ${tips.length === 1 ? 'tip' : 'tips'}_`,
+  ].join('\n\n');
+  return `${[header, ...tips.map(formatTipAsMarkdown)].join('\n\n---\n\n')}\n`;
+};
+
+/**
+ * Validates an export file. Tips are checked one by one like stored tips, so
+ * a file with a few broken entries still imports the rest.
+ */
+export const parseTipsExport = (text: string): ParsedTipsImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new TipImportError('INVALID_JSON', "That file isn't valid JSON. Export your tips again and import the new file.");
+  }
+
+  const file = typeof parsed === 'object' && parsed !== null ? (parsed as Partial<Record<keyof SavedTipsExport, unknown>>) : {};
+  if (file.schema !== TIPS_EXPORT_SCHEMA) {
+    throw new TipImportError('UNSUPPORTED', "That file isn't a Stardew Sage saved tips export.");
+  }
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+    throw new TipImportError('UNSUPPORTED', 'That export has no valid version number. It may have been edited by hand.');
+  }
+  if (file.version > TIPS_EXPORT_VERSION) {
+    throw new TipImportError('UNSUPPORTED', 'That export was made by a newer version of Stardew Sage. Reload the page and try again.');
+  }
+  if (!Array.isArray(file.tips)) {
+    throw new TipImportError('NO_TIPS', 'That export has no list of tips.');
+  }
+
+  const tips = file.tips.map(reviveSavedTip).filter((tip): tip is SavedTip => tip !== null);
+  if (tips.length === 0) {
+    throw new TipImportError(
+      'NO_TIPS',
+      file.tips.length === 0 ? 'That export has no tips in it.' : 'None of the tips in that export could be read.',
+    );
+  }
+  return { tips, skipped: file.tips.length - tips.length };
+};
+
+export const readTipsFile = async (file: File) => {
+  if (file.size > MAX_TIPS_IMPORT_BYTES) {
+    throw new TipImportError('TOO_LARGE', 'That file is too large to be a saved tips export.');
+  }
+  return parseTipsExport(await file.text());
+};
+
+// Whitespace differences don't make a tip new.
+const getContentKey = (tip: SavedTip) => tip.content.trim().replace(/\s+/g, ' ');
+
+/** Adds imported tips to (or swaps them for) the current ones, skipping tips whose content is already there. */
+export const mergeImportedTips = (
+  current: SavedTip[],
+  incoming: SavedTip[],
+  strategy: TipImportStrategy,
+): { tips: SavedTip[]; summary: TipImportSummary } => {
+  const kept = strategy === 'merge' ? current : [];
+  const seenContent = new Set(kept.map(getContentKey));
+  const usedIds = new Set(kept.map((tip) => tip.id));
+  const added: SavedTip[] = [];
+
+  for (const tip of incoming) {
+    const contentKey = getContentKey(tip);
+    if (seenContent.has(contentKey)) continue;
+    seenContent.add(contentKey);
+
+    // Tips from another device can reuse a message key for a different answer.
+    let id = tip.id;
+    for (let suffix = 2; usedIds.has(id); suffix += 1) {
+      id = `${tip.id}-${suffix}`;
+    }
+    usedIds.add(id);
+    added.push(id === tip.id ? tip : { ...tip, id });
+  }
+
+  return {
+    tips: [...kept, ...added],
+    summary: { added: added.length, duplicates: incoming.length - added.length },
+  };
+};
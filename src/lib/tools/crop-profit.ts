@@ -0,0 +1,176 @@
+import { DAYS_PER_SEASON, SEASONS, type Season } from '../../constants/farm';
+import { CROPS } from '../knowledge/data/crops';
+import type { CropRecord } from '../knowledge/types';
+import { findByName, readBoolean, readInteger, readString, toolError, type ChatTool } from './types';
+
+export const FERTILIZER_SPEED_BONUS = {
+  none: 0,
+  'speed-gro': 0.1,
+  'deluxe-speed-gro': 0.25,
+  'hyper-speed-gro': 0.33,
+} as const;
+
+export type Fertilizer = keyof typeof FERTILIZER_SPEED_BONUS;
+
+// `in` would also accept inherited keys such as "constructor" from the model's arguments.
+export const isFertilizer = (value: string): value is Fertilizer => Object.hasOwn(FERTILIZER_SPEED_BONUS, value);
+
+const AGRICULTURIST_SPEED_BONUS = 0.1;
+const TILLER_PRICE_BONUS = 0.1;
+
+export interface CropProfitInput {
+  crop: CropRecord;
+  season: Season;
+  plantingDay: number;
+  fertilizer: Fertilizer;
+  agriculturist: boolean;
+  tiller: boolean;
+}
+
+export interface CropProfitResult {
+  crop: string;
+  season: Season;
+  plantingDay: number;
+  fertilizer: Fertilizer;
+  growthDays: number;
+  /** Days from planting until the crop dies at the end of its last consecutive season. */
+  daysAvailable: number;
+  harvests: number;
+  cropsHarvested: number;
+  seedsBought: number;
+  revenue: number;
+  seedCost: number;
+  profit: number;
+  profitPerDay: number;
+}
+
+/** Days from planting to the first harvest; speed bonuses shave `ceil(growthDays * bonus)` days, as the game does. */
+export const getGrowthDays = (crop: CropRecord, fertilizer: Fertilizer, agriculturist: boolean) => {
+  const speedBonus = FERTILIZER_SPEED_BONUS[fertilizer] + (agriculturist ? AGRICULTURIST_SPEED_BONUS : 0);
+  return crop.growthDays - Math.ceil(crop.growthDays * speedBonus);
+};
+
+/** Seasons the crop keeps growing through, starting at the planting season. */
+const countConsecutiveSeasons = (crop: CropRecord, season: Season) => {
+  let count = 0;
+  for (let index = SEASONS.indexOf(season); index < SEASONS.length && crop.seasons.includes(SEASONS[index]); index += 1) {
+    count += 1;
+  }
+  return count;
+};
+
+/**
+ * Normal-quality profit for planting one tile on `plantingDay`, replanting
+ * single-harvest crops as soon as they are picked.
+ */
+export const calculateCropProfit = ({
+  crop,
+  season,
+  plantingDay,
+  fertilizer,
+  agriculturist,
+  tiller,
+}: CropProfitInput): CropProfitResult => {
+  const growthDays = getGrowthDays(crop, fertilizer, agriculturist);
+  const daysAvailable = countConsecutiveSeasons(crop, season) * DAYS_PER_SEASON - plantingDay;
+
+  let harvests = 0;
+  let seedsBought = 1;
+  if (crop.regrowthDays) {
+    harvests = growthDays <= daysAvailable ? 1 + Math.floor((daysAvailable - growthDays) / crop.regrowthDays) : 0;
+  } else {
+    harvests = Math.floor(daysAvailable / growthDays);
+    seedsBought = Math.max(1, harvests);
+  }
+
+  const cropsHarvested = harvests * (crop.harvestYield ?? 1);
+  const unitPrice = Math.floor(crop.sellPrice * (tiller ? 1 + TILLER_PRICE_BONUS : 1));
+  const revenue = cropsHarvested * unitPrice;
+  const seedCost = (crop.seedPrice ?? 0) * seedsBought;
+  const profit = revenue - seedCost;
+
+  return {
+    crop: crop.name,
+    season,
+    plantingDay,
+    fertilizer,
+    growthDays,
+    daysAvailable,
+    harvests,
+    cropsHarvested,
+    seedsBought,
+    revenue,
+    seedCost,
+    profit,
+    profitPerDay: daysAvailable > 0 ? Math.round((profit / daysAvailable) * 100) / 100 : 0,
+  };
+};
+
+export const cropProfitTool: ChatTool = {
+  label: 'Crop profit calculator',
+  definition: {
+    name: 'calculate_crop_profit',
+    description:
+      'Calculates harvests, revenue, seed cost and profit for one tile of a crop planted on a given day, at normal quality. Use it for any question about crop profit or which crop earns more.',
+    parameters: {
+      type: 'object',
+      properties: {
+        crop: { type: 'string', description: 'Crop name, e.g. "Strawberry" or "Blueberry".' },
+        season: {
+          type: 'string',
+          description: 'Season the crop is planted in. Defaults to the first season the crop grows in.',
+          enum: [...SEASONS],
+        },
+        plantingDay: { type: 'integer', description: 'Day of the season the seed is planted, 1-28. Defaults to 1.' },
+        fertilizer: {
+          type: 'string',
+          description: 'Speed fertilizer used, if any.',
+          enum: Object.keys(FERTILIZER_SPEED_BONUS),
+        },
+        agriculturist: { type: 'boolean', description: 'Whether the farmer has the Agriculturist profession.' },
+        tiller: { type: 'boolean', description: 'Whether the farmer has the Tiller profession.' },
+      },
+      required: ['crop'],
+    },
+  },
+  execute(args) {
+    const name = readString(args, 'crop');
+    const crop = name ? findByName(CROPS, name) : undefined;
+    if (!crop) {
+      return toolError(`Unknown crop "${name ?? ''}". Known crops: ${CROPS.map((entry) => entry.name).join(', ')}.`);
+    }
+
+    const season = (readString(args, 'season')?.toLowerCase() ?? crop.seasons[0]) as Season;
+    if (!crop.seasons.includes(season)) {
+      return toolError(`${crop.name} does not grow in ${season}. It grows in: ${crop.seasons.join(', ')}.`);
+    }
+
+    const plantingDay = readInteger(args, 'plantingDay') ?? 1;
+    if (plantingDay < 1 || plantingDay > DAYS_PER_SEASON) {
+      return toolError(`plantingDay must be between 1 and ${DAYS_PER_SEASON}.`);
+    }
+
+    const fertilizer = readString(args, 'fertilizer')?.toLowerCase() ?? 'none';
+    if (!isFertilizer(fertilizer)) {
+      return toolError(`Unknown fertilizer "${fertilizer}". Use one of: ${Object.keys(FERTILIZER_SPEED_BONUS).join(', ')}.`);
+    }
+
+    const result = calculateCropProfit({
+      crop,
+      season,
+      plantingDay,
+      fertilizer,
+      agriculturist: readBoolean(args, 'agriculturist'),
+      tiller: readBoolean(args, 'tiller'),
+    });
+
+    return {
+      ok: true,
+      result,
+      summary:
+        result.harvests === 0
+          ? `${crop.name} planted ${season} ${plantingDay} won't mature before the season ends`
+          : `${crop.name} from ${season} ${plantingDay}: ${result.harvests} harvest${result.harvests === 1 ? '' : 's'}, ${result.profit.toLocaleString('en-US')}g profit (${result.profitPerDay}g/day)`,
+    };
+  },
+};
@@ -0,0 +1,90 @@
+import { SEASONS, type Season } from '../../constants/farm';
+import { FISH } from '../knowledge/data/fish';
+import { formatHour } from '../knowledge/entries';
+import type { FishRecord } from '../knowledge/types';
+import { readBoolean, readInteger, readString, toolError, type ChatTool } from './types';
+
+const WEATHER_OPTIONS = ['sunny', 'rainy'] as const;
+
+type Weather = typeof WEATHER_OPTIONS[number];
+
+export interface FishFilter {
+  season?: Season;
+  weather?: Weather;
+  /** Hour in 24-hour time; 6-26, where values past 24 are after midnight. */
+  hour?: number;
+  location?: string;
+  includeLegendary?: boolean;
+}
+
+export const findAvailableFish = ({ season, weather, hour, location, includeLegendary = false }: FishFilter): FishRecord[] => {
+  const locationNeedle = location?.toLowerCase();
+  return FISH.filter(
+    (fish) =>
+      (includeLegendary || !fish.isLegendary) &&
+      (!season || fish.seasons.includes(season)) &&
+      (!weather || fish.weather === 'any' || fish.weather === weather) &&
+      (hour === undefined || (hour >= fish.hours.start && hour < fish.hours.end)) &&
+      (!locationNeedle || fish.locations.some((entry) => entry.toLowerCase().includes(locationNeedle))),
+  );
+};
+
+export const fishAvailabilityTool: ChatTool = {
+  label: 'Fish finder',
+  definition: {
+    name: 'find_available_fish',
+    description:
+      'Lists fish that can be caught for a given season, weather, time of day and location, with their catch windows and prices. Every filter is optional.',
+    parameters: {
+      type: 'object',
+      properties: {
+        season: { type: 'string', description: 'Season to check.', enum: [...SEASONS] },
+        weather: { type: 'string', description: 'Current weather.', enum: [...WEATHER_OPTIONS] },
+        hour: {
+          type: 'integer',
+          description: 'Hour in 24-hour time, 6-26; use 25 for 1am and 26 for 2am.',
+        },
+        location: { type: 'string', description: 'Location name or part of it, e.g. "Ocean" or "Mountain Lake".' },
+        includeLegendary: { type: 'boolean', description: 'Whether to include legendary fish.' },
+      },
+    },
+  },
+  execute(args) {
+    const season = readString(args, 'season')?.toLowerCase();
+    if (season && !SEASONS.includes(season as Season)) {
+      return toolError(`Unknown season "${season}".`);
+    }
+    const weather = readString(args, 'weather')?.toLowerCase();
+    if (weather && !WEATHER_OPTIONS.includes(weather as Weather)) {
+      return toolError(`Weather must be one of: ${WEATHER_OPTIONS.join(', ')}.`);
+    }
+    const hour = readInteger(args, 'hour');
+    if (hour !== undefined && (hour < 6 || hour > 26)) {
+      return toolError('hour must be between 6 and 26.');
+    }
+
+    const fish = findAvailableFish({
+      season: season as Season | undefined,
+      weather: weather as Weather | undefined,
+      hour,
+      location: readString(args, 'location'),
+      includeLegendary: readBoolean(args, 'includeLegendary'),
+    });
+
+    return {
+      ok: true,
+      result: fish.map(({ name, locations, hours, weather: fishWeather, sellPrice, notes }) => ({
+        name,
+        locations,
+        time: `${formatHour(hours.start)}-${formatHour(hours.end)}`,
+        weather: fishWeather,
+        sellPrice,
+        notes,
+      })),
+      summary:
+        fish.length === 0
+          ? 'No matching fish'
+          : `${fish.length} fish: ${fish.slice(0, 4).map((entry) => entry.name).join(', ')}${fish.length > 4 ? ', ...' : ''}`,
+    };
+  },
+};
@@ -0,0 +1,40 @@
+import { UNIVERSAL_LOVES, VILLAGERS } from '../knowledge/data/villagers';
+import { findByName, readString, toolError, type ChatTool } from './types';
+
+export const giftTastesTool: ChatTool = {
+  label: 'Gift lookup',
+  definition: {
+    name: 'lookup_gift_tastes',
+    description:
+      "Looks up a villager's birthday, loved gifts (including universal loves) and hated gifts. Use it before recommending or warning against any gift.",
+    parameters: {
+      type: 'object',
+      properties: {
+        villager: { type: 'string', description: 'Villager name, e.g. "Abigail".' },
+      },
+      required: ['villager'],
+    },
+  },
+  execute(args) {
+    const name = readString(args, 'villager');
+    const villager = name ? findByName(VILLAGERS, name) : undefined;
+    if (!villager) {
+      return toolError(
+        `No gift data for "${name ?? ''}". Known villagers: ${VILLAGERS.map((entry) => entry.name).join(', ')}.`,
+      );
+    }
+
+    const universalLoves = UNIVERSAL_LOVES.filter((gift) => !villager.hates.includes(gift));
+    return {
+      ok: true,
+      result: {
+        villager: villager.name,
+        birthday: villager.birthday,
+        loves: villager.loves,
+        universalLoves,
+        hates: villager.hates,
+      },
+      summary: `${villager.name} loves ${villager.loves.slice(0, 3).join(', ')}${villager.loves.length > 3 ? ', ...' : ''}`,
+    };
+  },
+};
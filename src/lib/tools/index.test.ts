@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { Season } from '../../constants/farm';
+import { CROPS } from '../knowledge/data/crops';
+import { calculateCropProfit, cropProfitTool, type Fertilizer } from './crop-profit';
+import { findAvailableFish, fishAvailabilityTool } from './fish-availability';
+import { seasonCalendarTool } from './season-calendar';
+import { findByName } from './types';
+import type { SeasonCalendar } from '../../types/calendar';
+
+const profitFor = (cropName: string, season: Season, options: { fertilizer?: Fertilizer; tiller?: boolean } = {}) => {
+  const crop = findByName(CROPS, cropName);
+  if (!crop) throw new Error(`Unknown crop ${cropName}`);
+  return calculateCropProfit({
+    crop,
+    season,
+    plantingDay: 1,
+    fertilizer: options.fertilizer ?? 'none',
+    agriculturist: false,
+    tiller: options.tiller ?? false,
+  });
+};
+
+describe('calculateCropProfit', () => {
+  it('replants a single-harvest crop after every harvest', () => {
+    expect(profitFor('Parsnip', 'spring')).toMatchObject({
+      growthDays: 4,
+      daysAvailable: 27,
+      harvests: 6,
+      seedsBought: 6,
+      revenue: 210,
+      seedCost: 120,
+      profit: 90,
+      profitPerDay: 3.33,
+    });
+  });
+
+  it('buys one seed for a crop that regrows', () => {
+    expect(profitFor('Strawberry', 'spring')).toMatchObject({
+      harvests: 5,
+      seedsBought: 1,
+      revenue: 600,
+      seedCost: 100,
+      profit: 500,
+    });
+  });
+
+  it('counts every crop from a multi-yield harvest', () => {
+    expect(profitFor('Blueberry', 'summer')).toMatchObject({ harvests: 4, cropsHarvested: 12, revenue: 600, profit: 520 });
+  });
+
+  it('keeps a multi-season crop growing into the next season', () => {
+    expect(profitFor('Corn', 'summer')).toMatchObject({ daysAvailable: 55, harvests: 11, revenue: 550, profit: 400 });
+    expect(profitFor('Corn', 'fall')).toMatchObject({ daysAvailable: 27, harvests: 4, revenue: 200, profit: 50 });
+  });
+
+  it('applies fertilizer speed and the Tiller price bonus', () => {
+    expect(profitFor('Parsnip', 'spring', { fertilizer: 'deluxe-speed-gro' })).toMatchObject({ growthDays: 3, harvests: 9 });
+    expect(profitFor('Parsnip', 'spring', { tiller: true }).revenue).toBe(6 * 38);
+  });
+});
+
+describe('show_season_calendar', () => {
+  const calendarFor = (args: Record<string, unknown>) => {
+    const outcome = seasonCalendarTool.execute(args);
+    if (!outcome.ok) throw new Error(outcome.error);
+    return outcome.calendar as SeasonCalendar;
+  };
+
+  it('marks festivals, including every day of a multi-day one', () => {
+    const { events } = calendarFor({ season: 'spring', includeBirthdays: false });
+    expect(events.map((event) => [event.day, event.label])).toEqual([
+      [13, 'Egg Festival'],
+      [15, 'Desert Festival'],
+      [16, 'Desert Festival'],
+      [17, 'Desert Festival'],
+      [24, 'Flower Dance'],
+    ]);
+  });
+
+  it('marks the same harvests the profit calculator counts', () => {
+    const { events } = calendarFor({ season: 'spring', crop: 'Strawberry', includeBirthdays: false, includeFestivals: false });
+    expect(events.filter((event) => event.type === 'harvest').map((event) => event.day)).toEqual([9, 13, 17, 21, 25]);
+
+    const parsnips = calendarFor({ season: 'spring', crop: 'Parsnip', includeBirthdays: false, includeFestivals: false });
+    expect(parsnips.events.filter((event) => event.type === 'harvest')).toHaveLength(6);
+  });
+
+  it('includes birthdays by default', () => {
+    expect(calendarFor({ season: 'fall' }).events).toContainEqual(
+      expect.objectContaining({ day: 13, type: 'birthday', label: "Abigail's birthday" }),
+    );
+  });
+
+  it('rejects a crop out of season', () => {
+    expect(seasonCalendarTool.execute({ season: 'winter', crop: 'Parsnip' }).ok).toBe(false);
+  });
+});
+
+describe('find_available_fish', () => {
+  const names = (fish: { name: string }[]) => fish.map((entry) => entry.name);
+
+  it('filters by season, weather, hour and location', () => {
+    const fish = names(findAvailableFish({ season: 'spring', weather: 'rainy', hour: 20, location: 'ocean' }));
+    expect(fish).toContain('Eel');
+    expect(fish).not.toContain('Sardine');
+    expect(names(findAvailableFish({ season: 'spring', weather: 'sunny', location: 'ocean' }))).not.toContain('Eel');
+  });
+
+  it('leaves legendary fish out unless asked', () => {
+    expect(names(findAvailableFish({ season: 'spring', weather: 'rainy' }))).not.toContain('Legend');
+    expect(names(findAvailableFish({ season: 'spring', weather: 'rainy', includeLegendary: true }))).toContain('Legend');
+  });
+
+  it('rejects hours outside the fishing day', () => {
+    expect(fishAvailabilityTool.execute({ hour: 3 }).ok).toBe(false);
+  });
+});
+
+describe.each([
+  ['calculate_crop_profit', cropProfitTool],
+  ['show_season_calendar', seasonCalendarTool],
+] as const)('%s', (_name, tool) => {
+  // Fertilizer names are lowercased first, so these are the inherited keys that can still match.
+  it.each(['constructor', '__proto__'])('rejects the inherited key %j as a fertilizer', (fertilizer) => {
+    const outcome = tool.execute({ crop: 'Strawberry', season: 'spring', fertilizer });
+    expect(outcome).toEqual({ ok: false, error: expect.stringContaining(`Unknown fertilizer "${fertilizer}"`) });
+  });
+
+  it('accepts a listed fertilizer', () => {
+    expect(tool.execute({ crop: 'Strawberry', season: 'spring', fertilizer: 'Speed-Gro' }).ok).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+import type { LlmProvider, LlmRequest, LlmStreamEvent, LlmToolCall, LlmToolResult, LlmTurn } from '../llm/types';
+import type { SeasonCalendar } from '../../types/calendar';
+import type { ToolInvocation } from '../../types/tools';
+import { cropProfitTool } from './crop-profit';
+import { fishAvailabilityTool } from './fish-availability';
+import { giftTastesTool } from './gift-tastes';
+import { seasonCalendarTool } from './season-calendar';
+import type { ChatTool } from './types';
+
+export { calculateCropProfit } from './crop-profit';
+export { findAvailableFish } from './fish-availability';
+export type { ChatTool, ToolOutcome } from './types';
+
+/** Rounds of tool calls allowed per answer before the model must reply in text. */
+export const MAX_TOOL_ROUNDS = 3;
+
+export const CHAT_TOOLS: ChatTool[] = [
+  cropProfitTool,
+  giftTastesTool,
+  fishAvailabilityTool,
+  seasonCalendarTool,
+];
+
+export const CHAT_TOOL_DEFINITIONS = CHAT_TOOLS.map((tool) => tool.definition);
+
+/**
+ * Runs one model-requested call. Failures are returned to the model as an
+ * `error` result so it can correct its arguments instead of failing the answer.
+ */
+export const executeToolCall = (
+  call: LlmToolCall,
+): { result: LlmToolResult; invocation: ToolInvocation; calendar?: SeasonCalendar } => {
+  const tool = CHAT_TOOLS.find((entry) => entry.definition.name === call.name);
+  const outcome = tool
+    ? tool.execute(call.arguments)
+    : { ok: false as const, error: `Unknown tool "${call.name}".` };
+
+  return {
+    result: {
+      callId: call.id,
+      name: call.name,
+      result: outcome.ok ? outcome.result : { error: outcome.error },
+    },
+    invocation: {
+      id: call.id,
+      name: call.name,
+      label: tool?.label ?? call.name,
+      arguments: call.arguments,
+      summary: outcome.ok ? outcome.summary : outcome.error,
+      isError: !outcome.ok,
+    },
+    calendar: outcome.ok ? outcome.calendar : undefined,
+  };
+};
+
+export type ToolStreamEvent =
+  | LlmStreamEvent
+  | { type: 'tool_result'; invocation: ToolInvocation; calendar?: SeasonCalendar };
+
+const runToolRound = (turns: LlmTurn[], text: string, calls: LlmToolCall[]) => {
+  const executed = calls.map(executeToolCall);
+  return {
+    executed,
+    turns: [
+      ...turns,
+      { role: 'assistant' as const, content: text, toolCalls: calls },
+      { role: 'tool' as const, results: executed.map(({ result }) => result) },
+    ],
+  };
+};
+
+const roundRequest = (request: LlmRequest, turns: LlmTurn[], round: number): LlmRequest => ({
+  ...request,
+  turns,
+  toolChoice: round >= MAX_TOOL_ROUNDS ? 'none' : request.toolChoice,
+});
+
+/**
+ * Streams an answer, running any tool calls locally and feeding the results
+ * back until the model replies without calling a tool. Text and `usage`
+ * events from every round are passed through; each finished call is reported
+ * as a `tool_result` event.
+ */
+export async function* streamWithTools(provider: LlmProvider, request: LlmRequest): AsyncGenerator<ToolStreamEvent> {
+  let turns = request.turns;
+
+  for (let round = 0; ; round += 1) {
+    let text = '';
+    const calls: LlmToolCall[] = [];
+
+    for await (const event of provider.stream(roundRequest(request, turns, round))) {
+      if (event.type === 'tool_call') {
+        calls.push(event.call);
+        continue;
+      }
+      if (event.type === 'text') text += event.text;
+      yield event;
+    }
+
+    if (calls.length === 0 || round >= MAX_TOOL_ROUNDS) return;
+
+    const next = runToolRound(turns, text, calls);
+    for (const { invocation, calendar } of next.executed) {
+      yield { type: 'tool_result', invocation, calendar };
+    }
+    turns = next.turns;
+  }
+}
+
+/**
+ * Non-streaming counterpart of `streamWithTools`. Output tokens are summed
+ * across rounds, and the last calendar a tool built is returned with the text.
+ */
+export const generateWithTools = async (provider: LlmProvider, request: LlmRequest) => {
+  let turns = request.turns;
+  let outputTokens = 0;
+  const invocations: ToolInvocation[] = [];
+  let calendar: SeasonCalendar | undefined;
+
+  for (let round = 0; ; round += 1) {
+    const result = await provider.generate(roundRequest(request, turns, round));
+    outputTokens += result.outputTokens;
+
+    if (!result.toolCalls?.length || round >= MAX_TOOL_ROUNDS) {
+      return { text: result.text, outputTokens, invocations, calendar };
+    }
+
+    const next = runToolRound(turns, result.text, result.toolCalls);
+    for (const executed of next.executed) {
+      invocations.push(executed.invocation);
+      calendar = executed.calendar ?? calendar;
+    }
+    turns = next.turns;
+  }
+};
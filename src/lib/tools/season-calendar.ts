@@ -0,0 +1,105 @@
+import { DAYS_PER_SEASON, SEASONS, type Season } from '../../constants/farm';
+import type { CalendarEvent } from '../../types/calendar';
+import { CROPS } from '../knowledge/data/crops';
+import { FESTIVALS } from '../knowledge/data/festivals';
+import { VILLAGERS } from '../knowledge/data/villagers';
+import type { CropRecord } from '../knowledge/types';
+import { FERTILIZER_SPEED_BONUS, getGrowthDays, isFertilizer } from './crop-profit';
+import { findByName, readBoolean, readInteger, readString, toolError, type ChatTool } from './types';
+
+const birthdayEvents = (season: Season): CalendarEvent[] =>
+  VILLAGERS.filter((villager) => villager.birthday.season === season).map((villager) => ({
+    day: villager.birthday.day,
+    season,
+    type: 'birthday',
+    label: `${villager.name}'s birthday`,
+  }));
+
+const festivalEvents = (season: Season): CalendarEvent[] =>
+  FESTIVALS.filter((festival) => festival.season === season).flatMap((festival) =>
+    Array.from({ length: (festival.endDay ?? festival.startDay) - festival.startDay + 1 }, (_, offset) => ({
+      day: festival.startDay + offset,
+      season,
+      type: 'festival' as const,
+      label: festival.name,
+    })),
+  );
+
+/** Planting day plus every harvest before the season ends, replanting single-harvest crops on harvest day. */
+const cropEvents = (crop: CropRecord, season: Season, plantingDay: number, growthDays: number): CalendarEvent[] => {
+  const events: CalendarEvent[] = [{ day: plantingDay, season, type: 'planting', label: `Plant ${crop.name}` }];
+  const interval = crop.regrowthDays ?? growthDays;
+  for (let day = plantingDay + growthDays; day <= DAYS_PER_SEASON; day += interval) {
+    events.push({ day, season, type: 'harvest', label: `Harvest ${crop.name}` });
+  }
+  return events;
+};
+
+export const seasonCalendarTool: ChatTool = {
+  label: 'Season calendar',
+  definition: {
+    name: 'show_season_calendar',
+    description:
+      'Builds a calendar for one season with villager birthdays, festivals and, if a crop is given, its planting and harvest days. The player sees it as a calendar under your answer, so use it whenever a question is about dates in a season.',
+    parameters: {
+      type: 'object',
+      properties: {
+        season: { type: 'string', description: 'Season to show.', enum: [...SEASONS] },
+        crop: { type: 'string', description: 'Optional crop whose harvest days should be marked.' },
+        plantingDay: { type: 'integer', description: 'Day the crop is planted, 1-28. Defaults to 1.' },
+        fertilizer: {
+          type: 'string',
+          description: 'Speed fertilizer used on the crop, if any.',
+          enum: Object.keys(FERTILIZER_SPEED_BONUS),
+        },
+        includeBirthdays: { type: 'boolean', description: 'Whether to mark birthdays. Defaults to true.' },
+        includeFestivals: { type: 'boolean', description: 'Whether to mark festivals. Defaults to true.' },
+      },
+      required: ['season'],
+    },
+  },
+  execute(args) {
+    const season = readString(args, 'season')?.toLowerCase() as Season | undefined;
+    if (!season || !SEASONS.includes(season)) {
+      return toolError(`season must be one of: ${SEASONS.join(', ')}.`);
+    }
+
+    const events: CalendarEvent[] = [];
+    if (args.includeBirthdays === undefined || readBoolean(args, 'includeBirthdays')) {
+      events.push(...birthdayEvents(season));
+    }
+    if (args.includeFestivals === undefined || readBoolean(args, 'includeFestivals')) {
+      events.push(...festivalEvents(season));
+    }
+
+    const cropName = readString(args, 'crop');
+    if (cropName) {
+      const crop = findByName(CROPS, cropName);
+      if (!crop) {
+        return toolError(`Unknown crop "${cropName}". Known crops: ${CROPS.map((entry) => entry.name).join(', ')}.`);
+      }
+      if (!crop.seasons.includes(season)) {
+        return toolError(`${crop.name} does not grow in ${season}. It grows in: ${crop.seasons.join(', ')}.`);
+      }
+      const plantingDay = readInteger(args, 'plantingDay') ?? 1;
+      if (plantingDay < 1 || plantingDay > DAYS_PER_SEASON) {
+        return toolError(`plantingDay must be between 1 and ${DAYS_PER_SEASON}.`);
+      }
+      const fertilizer = readString(args, 'fertilizer')?.toLowerCase() ?? 'none';
+      if (!isFertilizer(fertilizer)) {
+        return toolError(`Unknown fertilizer "${fertilizer}". Use one of: ${Object.keys(FERTILIZER_SPEED_BONUS).join(', ')}.`);
+      }
+      events.push(...cropEvents(crop, season, plantingDay, getGrowthDays(crop, fertilizer, false)));
+    }
+
+    events.sort((a, b) => a.day - b.day);
+    const calendar = { season, events };
+
+    return {
+      ok: true,
+      result: calendar,
+      summary: `${season.charAt(0).toUpperCase()}${season.slice(1)}: ${events.length} event${events.length === 1 ? '' : 's'} marked`,
+      calendar,
+    };
+  },
+};
@@ -0,0 +1,41 @@
+import type { LlmToolDefinition } from '../llm/types';
+import type { SeasonCalendar } from '../../types/calendar';
+
+export type ToolOutcome =
+  /** `calendar` is returned to the client alongside the answer, for tools that build one. */
+  | { ok: true; result: unknown; summary: string; calendar?: SeasonCalendar }
+  | { ok: false; error: string };
+
+export interface ChatTool {
+  definition: LlmToolDefinition;
+  label: string;
+  /** Validates the model's arguments and runs the calculation synchronously. */
+  execute: (args: Record<string, unknown>) => ToolOutcome;
+}
+
+export const toolError = (error: string): ToolOutcome => ({ ok: false, error });
+
+export const readString = (args: Record<string, unknown>, key: string) => {
+  const value = args[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+// Models sometimes send whole numbers as strings or floats.
+export const readInteger = (args: Record<string, unknown>, key: string) => {
+  const value = typeof args[key] === 'string' ? Number(args[key]) : args[key];
+  return typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : undefined;
+};
+
+export const readBoolean = (args: Record<string, unknown>, key: string) => args[key] === true || args[key] === 'true';
+
+export const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Case- and punctuation-insensitive lookup that also accepts plurals ("strawberries"). */
+export const findByName = <T extends { name: string }>(records: T[], query: string) => {
+  const needle = normalizeName(query);
+  const singular = needle.replace(/ies$/, 'y').replace(/s$/, '');
+  return records.find((record) => {
+    const name = normalizeName(record.name);
+    return name === needle || name === singular || name.replace(/ies$/, 'y').replace(/s$/, '') === singular;
+  });
+};
@@ -0,0 +1,102 @@
+import type { TranscriptExportFormat } from '../constants/chat';
+import { formatCalendarAsText } from './calendar';
+import { CITATION_TYPE_LABELS } from './citations';
+import { serializeMessage, UNTITLED_CONVERSATION } from './conversations';
+import type { ChatMessage } from '../types/chat';
+
+/** Identifies JSON transcripts; bump the version when the file shape changes. */
+export const TRANSCRIPT_EXPORT_SCHEMA = 'stardew-sage/transcript';
+export const TRANSCRIPT_EXPORT_VERSION = 1;
+
+export interface TranscriptDetails {
+  title: string;
+  /** Missing for a chat that hasn't been saved to the sidebar yet. */
+  conversationId: string | null;
+  exportedAt: Date;
+}
+
+const MAX_FILE_NAME_SLUG_LENGTH = 40;
+
+// Messages without text are answers that never arrived.
+export const getExportedMessages = (messages: ChatMessage[]) => messages.filter((message) => message.content.trim());
+
+export const getSpeaker = (message: ChatMessage) => (message.role === 'user' ? 'You' : 'Stardew Sage');
+
+export const getTimestamp = (message: ChatMessage) =>
+  message.timestamp instanceof Date && !Number.isNaN(message.timestamp.getTime()) ? message.timestamp : null;
+
+export const formatDateTime = (date: Date) => date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+/** `stardew-sage-<title>-<date>.<extension>`, so exports of different chats sort and read well in a downloads folder. */
+export const buildTranscriptFileName = ({ title, exportedAt }: TranscriptDetails, extension: string) => {
+  const slug =
+    title === UNTITLED_CONVERSATION
+      ? ''
+      : title
+          .toLowerCase()
+          .normalize('NFKD')
+          .replace(/[^a-z0-9]+/g, '-')
+          .slice(0, MAX_FILE_NAME_SLUG_LENGTH)
+          .replace(/^-+|-+$/g, '');
+  return `stardew-sage-${slug || 'chat'}-${exportedAt.toISOString().slice(0, 10)}.${extension}`;
+};
+
+/** Answers keep their own markdown; questions are quoted so they stand apart from it. */
+export const formatTranscriptAsMarkdown = (messages: ChatMessage[], details: TranscriptDetails) => {
+  const sections = getExportedMessages(messages).map((message) => {
+    const timestamp = getTimestamp(message);
+    const heading = `### ${getSpeaker(message)}${timestamp ? ` · ${formatDateTime(timestamp)}` : ''}`;
+    const body =
+      message.role === 'user'
+        ? message.content
+            .trim()
+            .split('\n')
+            .map((line) => `> ${line}`)
+            .join('\n')
+        : message.content.trim();
+
+    return [
+      heading,
+      body,
+      message.status === 'incomplete' ? '_This answer was interrupted._' : null,
+      message.calendar ? formatCalendarAsText(message.calendar) : null,
+      message.citations?.length
+        ? [
+            'Sources:',
+            ...message.citations.map(
+              (citation) => `- [${citation.title}](${citation.url}) (${CITATION_TYPE_LABELS[citation.type]})`,
+            ),
+          ].join('\n')
+        : null,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  });
+
+  const header = `# ${details.title}\n\n_Exported from Stardew Sage on ${formatDateTime(details.exportedAt)}_`;
+  return `${[header, ...sections].join('\n\n---\n\n')}\n`;
+};
+
+/** Every message as it is stored, with ISO timestamps, answer metadata and earlier variants. */
+export const formatTranscriptAsJson = (messages: ChatMessage[], details: TranscriptDetails) =>
+  JSON.stringify(
+    {
+      schema: TRANSCRIPT_EXPORT_SCHEMA,
+      version: TRANSCRIPT_EXPORT_VERSION,
+      exportedAt: details.exportedAt.toISOString(),
+      conversation: { id: details.conversationId, title: details.title },
+      messages: getExportedMessages(messages).map(serializeMessage),
+    },
+    null,
+    2,
+  );
+
+export const TRANSCRIPT_FORMATTERS: Record<
+  TranscriptExportFormat,
+  (messages: ChatMessage[], details: TranscriptDetails) => string | Promise<string>
+> = {
+  markdown: formatTranscriptAsMarkdown,
+  json: formatTranscriptAsJson,
+  // The print view needs react-dom/server, so it is only loaded when someone asks for it.
+  html: async (messages, details) => (await import('./transcript-html')).formatTranscriptAsHtml(messages, details),
+};
@@ -0,0 +1,91 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { CALENDAR_EVENT_TYPE_LABELS, formatCalendarTitle } from './calendar';
+import { CITATION_TYPE_LABELS } from './citations';
+import { formatDateTime, getExportedMessages, getSpeaker, getTimestamp, type TranscriptDetails } from './transcript-export';
+import type { ChatMessage } from '../types/chat';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Colors match the app's menu paper and border (see tailwind.config.js).
+const PRINT_STYLES = `
+  body { margin: 0; padding: 24px; background: #B68E65; color: #574738; font: 15px/1.6 Georgia, 'Times New Roman', serif; }
+  main { max-width: 760px; margin: 0 auto; padding: 28px 32px; background: #F4E9CD; border: 4px solid #6C5A49; border-radius: 12px; box-shadow: 0 6px 0 #5C4B3A; }
+  h1 { margin: 0 0 4px; font-size: 24px; color: #3A5E3D; }
+  .meta { margin: 0 0 24px; font-size: 13px; color: #8D6E56; }
+  article { margin: 0 0 16px; padding: 12px 16px; border: 2px solid #D4A373; border-radius: 8px; background: #FFFDF7; break-inside: avoid; }
+  article.user { background: #EFF5F0; border-color: #8FBC94; }
+  .speaker { margin: 0 0 6px; font-weight: bold; color: #6C584C; }
+  .speaker time { font-weight: normal; font-size: 12px; color: #8D6E56; margin-left: 6px; }
+  .question { margin: 0; white-space: pre-wrap; }
+  .content > :first-child { margin-top: 0; }
+  .content > :last-child { margin-bottom: 0; }
+  .extra { margin-top: 10px; font-size: 13px; }
+  .extra ul { margin: 4px 0 0; padding-left: 20px; }
+  .interrupted { font-style: italic; color: #8D6E56; }
+  a { color: #4A7049; }
+  @media print {
+    body { padding: 0; background: none; }
+    main { max-width: none; border: none; box-shadow: none; padding: 0; }
+    a::after { content: ' (' attr(href) ')'; font-size: 11px; color: #8D6E56; }
+  }
+`;
+
+const renderMessageHtml = (message: ChatMessage) => {
+  const timestamp = getTimestamp(message);
+  const time = timestamp ? `<time datetime="${timestamp.toISOString()}">${escapeHtml(formatDateTime(timestamp))}</time>` : '';
+  const body =
+    message.role === 'user'
+      ? `<p class="question">${escapeHtml(message.content.trim())}</p>`
+      : `<div class="content">${renderToStaticMarkup(createElement(ReactMarkdown, null, message.content))}</div>`;
+  const calendar = message.calendar
+    ? `<div class="extra"><strong>Calendar (${escapeHtml(formatCalendarTitle(message.calendar))})</strong><ul>${[...message.calendar.events]
+        .sort((a, b) => a.day - b.day)
+        .map(
+          (event) =>
+            `<li>Day ${event.day}: ${escapeHtml(event.label)} (${CALENDAR_EVENT_TYPE_LABELS[event.type]})</li>`,
+        )
+        .join('')}</ul></div>`
+    : '';
+  const sources = message.citations?.length
+    ? `<div class="extra"><strong>Sources</strong><ul>${message.citations
+        .map(
+          (citation) =>
+            `<li><a href="${escapeHtml(citation.url)}">${escapeHtml(citation.title)}</a> (${CITATION_TYPE_LABELS[citation.type]})</li>`,
+        )
+        .join('')}</ul></div>`
+    : '';
+  const interrupted = message.status === 'incomplete' ? '<p class="interrupted">This answer was interrupted.</p>' : '';
+
+  return `<article class="${message.role}"><p class="speaker">${getSpeaker(message)}${time}</p>${body}${interrupted}${calendar}${sources}</article>`;
+};
+
+/** A standalone page styled like the in-game menu paper, with print rules that drop the frame. */
+export const formatTranscriptAsHtml = (messages: ChatMessage[], details: TranscriptDetails) => {
+  const title = escapeHtml(details.title);
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title} · Stardew Sage</title>`,
+    `<style>${PRINT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    `<h1>${title}</h1>`,
+    `<p class="meta">Exported from Stardew Sage on ${escapeHtml(formatDateTime(details.exportedAt))}</p>`,
+    ...getExportedMessages(messages).map(renderMessageHtml),
+    '</main>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+};
@@ -0,0 +1,25 @@
+export type ApiErrorCode =
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_QUOTA'
+  | 'CONTENT_BLOCKED'
+  | 'INVALID_INPUT'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'MISCONFIGURED'
+  | 'UPSTREAM_ERROR'
+  | 'STREAM_INTERRUPTED'
+  | 'INTERNAL_ERROR'
+  // Client-side only: the request never reached the route or the response was unreadable.
+  | 'NETWORK_ERROR';
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  /** Whether sending the same request again can reasonably succeed. */
+  retryable: boolean;
+  retryAfterSeconds?: number;
+}
+
+export interface ApiErrorResponse {
+  error: ApiError;
+}
@@ -0,0 +1,17 @@
+import type { Season } from '../constants/farm';
+
+export type CalendarEventType = 'birthday' | 'festival' | 'planting' | 'harvest';
+
+export interface CalendarEvent {
+  day: number;
+  season: Season;
+  type: CalendarEventType;
+  label: string;
+}
+
+/** One 28-day season with the events an answer refers to. */
+export interface SeasonCalendar {
+  season: Season;
+  year?: number;
+  events: CalendarEvent[];
+}
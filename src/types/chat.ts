@@ -1,7 +1,88 @@
+import type { AnswerMode, RefusalReason } from '../constants/chat';
+import type { ApiError } from './api';
+import type { SeasonCalendar } from './calendar';
+import type { FarmProfile } from './farm';
+import type { MessageFeedback } from './feedback';
+import type { Citation } from './knowledge';
+import type { ToolInvocation } from './tools';
+
 export type ChatMessageRole = 'user' | 'assistant';
 
+export type ChatMessageStatus = 'streaming' | 'incomplete';
+
+/** Sent instead of an answer when a guardrail stops the question or the reply. */
+export interface ChatRefusal {
+  reason: RefusalReason;
+  /** Shown to the player in place of the answer. */
+  message: string;
+}
+
 export interface ChatMessage {
   role: ChatMessageRole;
   content: string;
   timestamp?: Date;
+  status?: ChatMessageStatus;
+  /** Knowledge base entries the answer was grounded on. */
+  citations?: Citation[];
+  /** Calculators the model ran before answering, in call order. */
+  toolInvocations?: ToolInvocation[];
+  /** Season grid built by the calendar tool, shown under the answer. */
+  calendar?: SeasonCalendar;
+  /** The answer was served from the server's answer cache. */
+  cached?: boolean;
+  /** Provider and model that wrote the answer, e.g. `gemini:gemini-2.0-flash`. */
+  model?: string;
+  /** Answer mode the question was asked in. */
+  mode?: AnswerMode;
+  promptVersion?: string;
+  feedback?: MessageFeedback;
+  /** Set when a guardrail replaced the answer; `content` holds the refusal message. */
+  refusal?: ChatRefusal;
+  /**
+   * Other versions of this message, each with the messages that followed it.
+   * Set on the first message of a fork: a regenerated answer or an edited question.
+   */
+  alternatives?: ChatMessage[][];
+  /** Position of this version among all of them, counting from 0; the alternatives fill the other slots in order. */
+  variantIndex?: number;
+}
+
+export type MessageFork = Required<Pick<ChatMessage, 'alternatives' | 'variantIndex'>>;
+
+export type ChatHistoryTurn = Pick<ChatMessage, 'role' | 'content'>;
+
+export interface ChatRequestBody {
+  message: string;
+  history?: ChatHistoryTurn[];
+  stream?: boolean;
+  profile?: FarmProfile;
+  /** Skip the answer cache and generate a fresh answer. */
+  regenerate?: boolean;
+  /** Defaults to `quick`; unknown modes are rejected. */
+  mode?: AnswerMode;
+}
+
+export interface ChatResponseBody {
+  response: string;
+  citations?: Citation[];
+  toolInvocations?: ToolInvocation[];
+  calendar?: SeasonCalendar;
+  /** True when the answer was served from the answer cache. */
+  cached?: boolean;
+  /** Set when a guardrail refused; `response` then holds the refusal message. */
+  refusal?: ChatRefusal;
+  model: string;
+  promptVersion: string;
+  mode: AnswerMode;
 }
+
+/** Everything about an answer besides its text, sent with the `done` event when streaming. */
+export type ChatAnswerDetails = Omit<ChatResponseBody, 'response' | 'toolInvocations' | 'refusal'>;
+
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool'; invocation: ToolInvocation }
+  /** Replaces everything streamed so far; a `done` event follows. */
+  | { type: 'refusal'; refusal: ChatRefusal }
+  | ({ type: 'done' } & ChatAnswerDetails)
+  | { type: 'error'; error: ApiError };
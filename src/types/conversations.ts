@@ -0,0 +1,17 @@
+import type { ChatMessage } from './chat';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A message as written to localStorage, where `Date` values become ISO strings. */
+export type StoredChatMessage = Omit<ChatMessage, 'timestamp' | 'alternatives'> & {
+  timestamp?: string | null;
+  alternatives?: StoredChatMessage[][];
+};
+
+export type StoredConversation = Omit<Conversation, 'messages'> & { messages: StoredChatMessage[] };
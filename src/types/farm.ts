@@ -0,0 +1,19 @@
+import type { CommunityCenterBundle, FarmArea, FarmType, Season, SkillName } from '../constants/farm';
+
+export interface FarmProfile {
+  season: Season;
+  /** Day of the season, 1-28. */
+  day: number;
+  year: number;
+  farmType: FarmType;
+  unlockedAreas: FarmArea[];
+  skills: Record<SkillName, number>;
+  completedBundles: CommunityCenterBundle[];
+  /** The fields below are only known when the profile was imported from a save file. */
+  money?: number;
+  /** Hearts per villager name, 0-14. */
+  friendshipHearts?: Record<string, number>;
+  museumDonations?: number;
+  /** Number of distinct items shipped. */
+  shippedItems?: number;
+}
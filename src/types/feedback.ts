@@ -0,0 +1,21 @@
+import type { FeedbackRating, FeedbackReason } from '../constants/feedback';
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  /** Why an answer was rated down; empty for thumbs up. */
+  reasons: FeedbackReason[];
+}
+
+export interface FeedbackRequestBody extends MessageFeedback {
+  /** Stable id of the rated answer, so later changes to the rating replace earlier ones in the export. */
+  messageId: string;
+  question: string;
+  answer: string;
+  model?: string;
+  promptVersion?: string;
+}
+
+export interface FeedbackRecord extends FeedbackRequestBody {
+  id: string;
+  createdAt: string;
+}
@@ -0,0 +1,9 @@
+export type KnowledgeEntityType = 'villager' | 'crop' | 'fish' | 'recipe' | 'bundle' | 'festival';
+
+/** A knowledge base entry an answer was grounded on, linked to its wiki page. */
+export interface Citation {
+  id: string;
+  type: KnowledgeEntityType;
+  title: string;
+  url: string;
+}
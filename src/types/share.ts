@@ -0,0 +1,31 @@
+import type { StoredChatMessage } from './conversations';
+
+export interface ShareRequestBody {
+  title: string;
+  messages: StoredChatMessage[];
+}
+
+/** A conversation as it was when the link was made. It never changes; sharing again makes a new link. */
+export interface SharedConversation {
+  id: string;
+  title: string;
+  messages: StoredChatMessage[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ShareResponseBody {
+  id: string;
+  url: string;
+  /** Only returned once; send it as `Authorization: Bearer <token>` to revoke the link. */
+  revokeToken: string;
+  expiresAt: string;
+}
+
+/** A link this browser created, kept so it can be copied again or revoked. */
+export interface SharedLink extends ShareResponseBody {
+  /** Sidebar conversation the link was made from, or `null` for an unsaved chat. */
+  conversationId: string | null;
+  title: string;
+  createdAt: string;
+}
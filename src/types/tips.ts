@@ -1,6 +1,50 @@
+import type { SeasonCalendar } from './calendar';
+import type { Citation } from './knowledge';
+
 export interface SavedTip {
   id: string;
   content: string;
+  /** The player's question that the saved answer replied to. */
+  question?: string;
   timestamp?: string | null;
   savedAt: string;
+  citations?: Citation[];
+  calendar?: SeasonCalendar;
+  /** Lowercase labels, pre-filled from the tip's keywords and editable by the player. */
+  tags: string[];
+  note?: string;
+  pinned?: boolean;
+  /** Last change to the tip, so the newer edit wins when two tabs change it. Defaults to `savedAt`. */
+  updatedAt?: string;
 }
+
+/** When each removed tip was removed, keyed by id, so other tabs drop the tip instead of restoring it. */
+export type TipTombstones = Record<string, string>;
+
+/** Everything `useSavedTips()` keeps in `localStorage`. */
+export interface SavedTipsSnapshot {
+  tips: SavedTip[];
+  removed: TipTombstones;
+}
+
+/** Why saved tips could not be written: the browser's quota is used up, or storage is blocked. */
+export type TipStorageIssue = 'full' | 'unavailable';
+
+/** The JSON file written by "Export JSON" and read back by import. */
+export interface SavedTipsExport {
+  schema: string;
+  version: number;
+  exportedAt: string;
+  tips: SavedTip[];
+}
+
+/** Merge keeps current tips and adds new ones; replace swaps the whole list for the file's tips. */
+export type TipImportStrategy = 'merge' | 'replace';
+
+export interface TipImportSummary {
+  added: number;
+  /** Tips left out because a tip with the same content was already there. */
+  duplicates: number;
+}
+
+export type TipExportFormat = 'json' | 'markdown';
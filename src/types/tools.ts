@@ -0,0 +1,11 @@
+/** A calculator the model ran while answering, as shown under the message. */
+export interface ToolInvocation {
+  id: string;
+  name: string;
+  /** Human-readable tool name, e.g. "Crop profit calculator". */
+  label: string;
+  arguments: Record<string, unknown>;
+  /** One-line outcome, or the reason the call failed. */
+  summary: string;
+  isError: boolean;
+}